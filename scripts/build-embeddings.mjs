@@ -1,17 +1,27 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import Database from "better-sqlite3";
+// Run through tsx so the shared TypeScript provider layer can be imported.
+import { createProviderFromEnv } from "../src/lib/providers.ts";
+import { chunkText, DEFAULT_CHUNKING } from "../src/lib/chunker.ts";
+import {
+  getEmbIndex,
+  rowVector,
+  VECTORS_BIN,
+  VECTORS_META,
+  writeEmbIndex,
+} from "../src/lib/embedding.ts";
 
 const DB_PATH = path.join(process.cwd(), "public", "policies.db");
-const OUT_PATH = path.join(process.cwd(), "public", "policies-embeddings.json");
+// float32 (default) or int8: 4x smaller, slightly lossy scores
+const DTYPE = process.env.EMB_DTYPE === "int8" ? "int8" : "float32";
+// --full re-embeds every page instead of reusing unchanged ones
+const FULL = process.argv.includes("--full");
 
-// --- Google Embeddings (v1, text-embedding-004) ---
-const API_KEY = process.env.GOOGLE_API_KEY || "";
-const EMB_URL = `https://generativelanguage.googleapis.com/v1/models/text-embedding-004:embedContent?key=${encodeURIComponent(
-  API_KEY
-)}`;
-
-if (!API_KEY) {
+// --- Embedding provider (LLM_PROVIDER=gemini|openai|fake) ---
+const provider = createProviderFromEnv();
+if (provider.name === "gemini" && !process.env.GOOGLE_API_KEY) {
   console.error("Missing GOOGLE_API_KEY");
   process.exit(1);
 }
@@ -28,54 +38,104 @@ const rows = db
   )
   .all();
 
-console.log(`Embedding ${rows.length} pages...`);
+function sha1(text) {
+  return crypto.createHash("sha1").update(text).digest("hex");
+}
 
-async function embed(text) {
-  // Keep payload reasonable for embeddings
-  const snippet = String(text).replace(/\s+/g, " ").slice(0, 4000);
-  const body = {
-    content: { parts: [{ text: snippet }] },
-    taskType: "RETRIEVAL_DOCUMENT",
-  };
-  const r = await fetch(EMB_URL, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify(body),
-  });
-  if (!r.ok) {
-    const t = await r.text();
-    throw new Error(`embed HTTP ${r.status}: ${t}`);
+// Previous store, reusable when model, chunking and dtype are unchanged
+// (vectors read back from an int8 store keep its quantization error)
+let prev = null;
+if (!FULL && fs.existsSync(VECTORS_META)) {
+  const idx = getEmbIndex();
+  if (
+    idx.model === provider.embedModel &&
+    idx.vectors.dtype === DTYPE &&
+    JSON.stringify(idx.chunking) === JSON.stringify(DEFAULT_CHUNKING)
+  ) {
+    prev = idx;
+  } else {
+    console.log(
+      "Model, chunking or EMB_DTYPE changed; re-embedding everything."
+    );
+  }
+}
+
+// "fileName#page" -> { textHash, rows } in the previous store
+const prevPages = new Map();
+prev?.items.forEach((it, r) => {
+  const key = `${it.fileName}#${it.page}`;
+  const entry = prevPages.get(key) ?? { textHash: it.textHash, rows: [] };
+  entry.rows.push(r);
+  prevPages.set(key, entry);
+});
+
+// Unchanged pages keep their vectors; the rest are split into overlapping
+// chunks (offsets index into the stored text) and embedded
+const reused = [];
+const chunks = [];
+for (const r of rows) {
+  const text = String(r.text);
+  const textHash = sha1(text);
+  const old = prevPages.get(`${r.fileName}#${r.page}`);
+  if (old && old.textHash === textHash) {
+    for (const row of old.rows) {
+      const meta = { ...prev.items[row] };
+      delete meta.id; // ids are reassigned below
+      reused.push({ meta, vector: rowVector(prev, row) });
+    }
+    continue;
   }
-  const j = await r.json();
-  const vec = j.embedding?.values;
-  if (!Array.isArray(vec)) throw new Error("No embedding.values");
+  chunkText(text).forEach((c, n) =>
+    chunks.push({
+      text: c.text,
+      meta: {
+        fileName: r.fileName,
+        relativePath: r.relativePath,
+        page: r.page,
+        chunk: n,
+        start: c.start,
+        end: c.end,
+        textHash,
+      },
+    })
+  );
+}
+
+console.log(
+  `Reusing ${reused.length} chunks; embedding ${chunks.length} new or changed chunks from ${rows.length} pages with ${provider.name}/${provider.embedModel}...`
+);
+
+async function embed(text) {
+  // Chunks are bounded by DEFAULT_CHUNKING.maxChars plus overlap
+  const vec = await provider.embedDocument(text);
   return vec;
 }
 
-const out = {
-  model: "text-embedding-004",
-  dim: 768,
-  items: [],
-};
+const items = reused.map(({ meta }, i) => ({ id: i + 1, ...meta }));
+const rowsOut = reused.map(({ vector }) => vector);
 
 const BATCH = 8;
-for (let i = 0; i < rows.length; i += BATCH) {
-  const chunk = rows.slice(i, i + BATCH);
-  const vecs = await Promise.all(
-    chunk.map(async (r) => ({
-      id: r.id,
-      fileName: r.fileName,
-      relativePath: r.relativePath,
-      page: r.page,
-      vector: await embed(r.text),
-    }))
-  );
-  out.items.push(...vecs);
+for (let i = 0; i < chunks.length; i += BATCH) {
+  const batch = chunks.slice(i, i + BATCH);
+  const vecs = await Promise.all(batch.map(({ text }) => embed(text)));
+  batch.forEach(({ meta }, j) => {
+    items.push({ id: items.length + 1, ...meta });
+    rowsOut.push(vecs[j]);
+  });
   process.stdout.write(
-    `\r${Math.min(i + BATCH, rows.length)} / ${rows.length}`
+    `\r${Math.min(i + BATCH, chunks.length)} / ${chunks.length}`
   );
 }
 process.stdout.write("\n");
 
-fs.writeFileSync(OUT_PATH, JSON.stringify(out));
-console.log("Wrote", OUT_PATH);
+writeEmbIndex(
+  {
+    model: provider.embedModel,
+    dtype: DTYPE,
+    builtAt: new Date().toISOString(),
+    chunking: DEFAULT_CHUNKING,
+    items,
+  },
+  rowsOut
+);
+console.log("Wrote", VECTORS_BIN, "and", VECTORS_META);
@@ -1,11 +1,25 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import Database from "better-sqlite3";
 // ➜ Use the Node/legacy ESM build. No worker needed in Node.
 import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
+import { createWorker } from "tesseract.js";
+import engData from "@tesseract.js-data/eng";
+import { parsePolicyFileName } from "../src/lib/policy-meta.ts";
 
 const SRC_DIR = path.resolve("policies-src");
 const OUT_DB = path.resolve("public/policies.db");
+// Page text the app reads at runtime (src/lib/db.ts), rewritten every run
+const OUT_PAGES = path.resolve("public/pages-index.json");
+// --full drops the database and re-parses every PDF
+const FULL = process.argv.includes("--full");
+// Pages with less extracted text than this are scanned images: they are
+// rendered and OCR'd locally (tesseract.js, bundled English model).
+// --no-ocr keeps the text layer only.
+const OCR = !process.argv.includes("--no-ocr");
+const OCR_MIN_CHARS = Number(process.env.OCR_MIN_CHARS ?? 20);
+const OCR_SCALE = Number(process.env.OCR_SCALE ?? 2); // 144 dpi
 
 // Walk all files recursively
 function* walk(dir) {
@@ -17,8 +31,49 @@ function* walk(dir) {
   }
 }
 
-async function extractPagesFromPdf(absPath) {
-  const data = new Uint8Array(fs.readFileSync(absPath));
+function sha256(buf) {
+  return crypto.createHash("sha256").update(buf).digest("hex");
+}
+
+let ocrWorker = null;
+
+// One worker for the whole run. The model comes from node_modules and
+// nothing is cached to disk, so OCR works offline.
+async function getOcrWorker() {
+  if (!ocrWorker) {
+    ocrWorker = await createWorker(engData.code, 1, {
+      langPath: engData.langPath,
+      gzip: engData.gzip,
+      cacheMethod: "none",
+    });
+  }
+  return ocrWorker;
+}
+
+// Renders the page (pdf.js uses @napi-rs/canvas in Node) and OCRs it.
+// Confidence is tesseract's mean word confidence, 0..100.
+async function ocrPage(doc, page) {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const { canvas, context } = doc.canvasFactory.create(
+    Math.ceil(viewport.width),
+    Math.ceil(viewport.height)
+  );
+  try {
+    await page.render({ canvasContext: context, viewport }).promise;
+    const worker = await getOcrWorker();
+    const { data } = await worker.recognize(canvas.toBuffer("image/png"));
+    return {
+      text: data.text.replace(/\s+/g, " ").trim(),
+      confidence: Math.round(data.confidence),
+    };
+  } finally {
+    doc.canvasFactory.destroy({ canvas, context });
+  }
+}
+
+// [{ text, ocr, ocrConfidence }] per page; `text` is "" for pages that
+// have no text even after OCR. A page whose OCR fails keeps its text layer.
+async function extractPagesFromPdf(data, relativePath) {
   // IMPORTANT: disable worker in Node
   const doc = await pdfjs.getDocument({ data, disableWorker: true }).promise;
 
@@ -31,42 +86,161 @@ async function extractPagesFromPdf(absPath) {
       .join(" ")
       .replace(/\s+/g, " ")
       .trim();
-    pages.push(text);
+    if (OCR && text.length < OCR_MIN_CHARS) {
+      let ocr = null;
+      try {
+        ocr = await ocrPage(doc, page);
+      } catch (err) {
+        console.warn(`  OCR failed for ${relativePath} p.${i}:`, err);
+      }
+      if (ocr && ocr.text.length > text.length) {
+        pages.push({
+          text: ocr.text,
+          ocr: true,
+          ocrConfidence: ocr.confidence,
+        });
+        continue;
+      }
+    }
+    pages.push({ text, ocr: false, ocrConfidence: null });
   }
   await doc.destroy();
   return pages;
 }
 
+// { "fileName#page": text } for every live page, in the format
+// scripts/dump-pages-json-sqljs.mjs writes
+function writePagesIndex(db) {
+  const rows = db
+    .prepare(`SELECT fileName, page, text FROM pages ORDER BY fileName, page`)
+    .all();
+  const map = Object.create(null);
+  for (const { fileName, page, text } of rows)
+    map[`${fileName}#${page}`] = String(text);
+  const tmp = `${OUT_PAGES}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(map));
+  fs.renameSync(tmp, OUT_PAGES);
+  return rows.length;
+}
+
+// Adds columns introduced after a database was first built
+function migrate(db, table, column, type) {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all();
+  if (!cols.some((c) => c.name === column))
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+}
+
 async function main() {
-  console.log("Building SQLite index →", OUT_DB);
+  console.log(`${FULL ? "Rebuilding" : "Updating"} SQLite index →`, OUT_DB);
   fs.mkdirSync(path.dirname(OUT_DB), { recursive: true });
-  if (fs.existsSync(OUT_DB)) fs.unlinkSync(OUT_DB);
+  if (FULL && fs.existsSync(OUT_DB)) fs.unlinkSync(OUT_DB);
 
   const db = new Database(OUT_DB);
   db.pragma("journal_mode = WAL");
 
+  // `files` is the ingestion manifest: one row per PDF ever seen, with its
+  // content hash and how many of its pages needed OCR. Deleted PDFs keep a
+  // tombstone row (deletedAt set). OCR-derived pages are flagged in `pages`
+  // with tesseract's confidence.
+  // `policies` holds the version metadata parsed from each live file name.
   db.exec(`
-    CREATE TABLE pages (
+    CREATE TABLE IF NOT EXISTS pages (
       id           INTEGER PRIMARY KEY,
       fileName     TEXT NOT NULL,
       relativePath TEXT NOT NULL,
       page         INTEGER NOT NULL,
-      text         TEXT NOT NULL
+      text         TEXT NOT NULL,
+      ocr          INTEGER NOT NULL DEFAULT 0,
+      ocrConfidence REAL
     );
-    CREATE VIRTUAL TABLE pages_fts USING fts5(
+    CREATE VIRTUAL TABLE IF NOT EXISTS pages_fts USING fts5(
       text, fileName, relativePath, page,
       tokenize = 'unicode61'
     );
+    CREATE TABLE IF NOT EXISTS files (
+      relativePath TEXT PRIMARY KEY,
+      fileName     TEXT NOT NULL,
+      sha256       TEXT NOT NULL,
+      size         INTEGER NOT NULL,
+      pages        INTEGER NOT NULL,
+      ocrPages     INTEGER NOT NULL DEFAULT 0,
+      indexedAt    TEXT NOT NULL,
+      deletedAt    TEXT
+    );
+    CREATE TABLE IF NOT EXISTS policies (
+      relativePath    TEXT PRIMARY KEY,
+      fileName        TEXT NOT NULL,
+      policyId        TEXT NOT NULL,
+      department      TEXT NOT NULL,
+      ceoApprovalDate TEXT,
+      versionDate     TEXT,
+      effectiveDate   TEXT,
+      meta            TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS policies_policyId ON policies (policyId);
+    CREATE TABLE IF NOT EXISTS ingest_runs (
+      id         INTEGER PRIMARY KEY,
+      startedAt  TEXT NOT NULL,
+      finishedAt TEXT NOT NULL,
+      added      INTEGER NOT NULL,
+      changed    INTEGER NOT NULL,
+      unchanged  INTEGER NOT NULL,
+      deleted    INTEGER NOT NULL,
+      ocrPages   INTEGER NOT NULL DEFAULT 0
+    );
   `);
+  migrate(db, "pages", "ocr", "INTEGER NOT NULL DEFAULT 0");
+  migrate(db, "pages", "ocrConfidence", "REAL");
+  migrate(db, "files", "ocrPages", "INTEGER NOT NULL DEFAULT 0");
+  migrate(db, "ingest_runs", "ocrPages", "INTEGER NOT NULL DEFAULT 0");
 
   const insertPage = db.prepare(`
-    INSERT INTO pages (fileName, relativePath, page, text)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO pages (fileName, relativePath, page, text, ocr, ocrConfidence)
+    VALUES (?, ?, ?, ?, ?, ?)
   `);
   const insertFts = db.prepare(`
     INSERT INTO pages_fts (rowid, text, fileName, relativePath, page)
     VALUES (?, ?, ?, ?, ?)
   `);
+  const deleteFts = db.prepare(`
+    DELETE FROM pages_fts
+    WHERE rowid IN (SELECT id FROM pages WHERE relativePath = ?)
+  `);
+  const deletePages = db.prepare(`DELETE FROM pages WHERE relativePath = ?`);
+  const upsertFile = db.prepare(`
+    INSERT INTO files (relativePath, fileName, sha256, size, pages, ocrPages, indexedAt, deletedAt)
+    VALUES (@relativePath, @fileName, @sha256, @size, @pages, @ocrPages, @indexedAt, NULL)
+    ON CONFLICT(relativePath) DO UPDATE SET
+      fileName = excluded.fileName, sha256 = excluded.sha256,
+      size = excluded.size, pages = excluded.pages,
+      ocrPages = excluded.ocrPages,
+      indexedAt = excluded.indexedAt, deletedAt = NULL
+  `);
+  const tombstone = db.prepare(
+    `UPDATE files SET deletedAt = ? WHERE relativePath = ?`
+  );
+  const upsertPolicy = db.prepare(`
+    INSERT INTO policies (relativePath, fileName, policyId, department,
+                          ceoApprovalDate, versionDate, effectiveDate, meta)
+    VALUES (@relativePath, @fileName, @policyId, @department,
+            @ceoApprovalDate, @versionDate, @effectiveDate, @meta)
+    ON CONFLICT(relativePath) DO UPDATE SET
+      fileName = excluded.fileName, policyId = excluded.policyId,
+      department = excluded.department,
+      ceoApprovalDate = excluded.ceoApprovalDate,
+      versionDate = excluded.versionDate,
+      effectiveDate = excluded.effectiveDate, meta = excluded.meta
+  `);
+  const deletePolicy = db.prepare(
+    `DELETE FROM policies WHERE relativePath = ?`
+  );
+
+  const known = new Map(
+    db
+      .prepare(`SELECT relativePath, sha256, deletedAt FROM files`)
+      .all()
+      .map((r) => [r.relativePath, r])
+  );
 
   const files = [...walk(SRC_DIR)].filter((p) =>
     p.toLowerCase().endsWith(".pdf")
@@ -76,19 +250,73 @@ async function main() {
     process.exit(1);
   }
 
+  const startedAt = new Date().toISOString();
+  const stats = { added: 0, changed: 0, unchanged: 0, deleted: 0 };
   let totalPages = 0;
+  const ocrByFile = []; // [relativePath, ocr pages, pages, mean confidence]
+  const seen = new Set();
 
   for (const absPath of files) {
     const fileName = path.basename(absPath);
     const relativePath = path.relative(SRC_DIR, absPath).replaceAll("\\", "/");
-    console.log("Parsing:", relativePath);
+    seen.add(relativePath);
+
+    // Cheap, so refreshed for every file on every run
+    const meta = parsePolicyFileName(fileName);
+    if (meta) {
+      upsertPolicy.run({
+        relativePath,
+        fileName,
+        policyId: meta.policyId,
+        department: meta.department,
+        ceoApprovalDate: meta.ceoApprovalDate ?? null,
+        versionDate: meta.versionDate ?? null,
+        effectiveDate: meta.effectiveDate ?? null,
+        meta: JSON.stringify(meta),
+      });
+    } else {
+      console.warn("No policy id in file name:", relativePath);
+      deletePolicy.run(relativePath);
+    }
+
+    const buf = fs.readFileSync(absPath);
+    const hash = sha256(buf);
+    const prev = known.get(relativePath);
+    if (prev && !prev.deletedAt && prev.sha256 === hash) {
+      stats.unchanged++;
+      continue;
+    }
+    console.log(
+      prev && !prev.deletedAt ? "Re-parsing:" : "Parsing:",
+      relativePath
+    );
 
-    const pages = await extractPagesFromPdf(absPath);
+    const pages = await extractPagesFromPdf(new Uint8Array(buf), relativePath);
+    const ocrPages = pages.filter((p) => p.ocr);
+    if (ocrPages.length) {
+      const confidence = Math.round(
+        ocrPages.reduce((n, p) => n + p.ocrConfidence, 0) / ocrPages.length
+      );
+      ocrByFile.push([relativePath, ocrPages.length, pages.length, confidence]);
+      console.log(
+        `  OCR: ${ocrPages.length} of ${pages.length} pages (mean confidence ${confidence})`
+      );
+    }
 
     db.transaction(() => {
-      pages.forEach((text, idx) => {
+      // Replace whatever this file had before
+      deleteFts.run(relativePath);
+      deletePages.run(relativePath);
+      pages.forEach(({ text, ocr, ocrConfidence }, idx) => {
         if (!text) return;
-        const info = insertPage.run(fileName, relativePath, idx + 1, text);
+        const info = insertPage.run(
+          fileName,
+          relativePath,
+          idx + 1,
+          text,
+          ocr ? 1 : 0,
+          ocrConfidence
+        );
         insertFts.run(
           info.lastInsertRowid,
           text,
@@ -98,14 +326,61 @@ async function main() {
         );
         totalPages++;
       });
+      upsertFile.run({
+        relativePath,
+        fileName,
+        sha256: hash,
+        size: buf.length,
+        pages: pages.length,
+        ocrPages: ocrPages.length,
+        indexedAt: new Date().toISOString(),
+      });
+    })();
+    if (prev && !prev.deletedAt) stats.changed++;
+    else stats.added++;
+  }
+
+  // Tombstone PDFs that disappeared from policies-src
+  for (const [relativePath, prev] of known) {
+    if (seen.has(relativePath) || prev.deletedAt) continue;
+    console.log("Removing:", relativePath);
+    db.transaction(() => {
+      deleteFts.run(relativePath);
+      deletePages.run(relativePath);
+      deletePolicy.run(relativePath);
+      tombstone.run(new Date().toISOString(), relativePath);
     })();
+    stats.deleted++;
   }
 
+  db.prepare(
+    `INSERT INTO ingest_runs (startedAt, finishedAt, added, changed, unchanged, deleted, ocrPages)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    startedAt,
+    new Date().toISOString(),
+    stats.added,
+    stats.changed,
+    stats.unchanged,
+    stats.deleted,
+    ocrByFile.reduce((n, [, ocr]) => n + ocr, 0)
+  );
+
   db.exec(`ANALYZE;`);
+  const indexedPages = writePagesIndex(db);
   db.close();
+  await ocrWorker?.terminate();
   console.log(
-    `Done. Indexed ${files.length} PDFs, ${totalPages} pages -> ${OUT_DB}`
+    `Done. ${stats.added} added, ${stats.changed} changed, ${stats.unchanged} unchanged, ${stats.deleted} deleted; indexed ${totalPages} pages -> ${OUT_DB}`
   );
+  console.log(`Wrote ${indexedPages} pages -> ${OUT_PAGES}`);
+  if (ocrByFile.length) {
+    console.log(`OCR was needed for ${ocrByFile.length} file(s):`);
+    for (const [relativePath, ocr, pages, confidence] of ocrByFile)
+      console.log(
+        `  ${relativePath}: ${ocr}/${pages} pages, mean confidence ${confidence}`
+      );
+  }
 }
 
 main().catch((e) => {
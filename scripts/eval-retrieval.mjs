@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import path from "node:path";
+// Run through tsx so the checker and provider layer can be imported.
+import { loadCheckContext } from "../src/lib/checker.ts";
+import { getEmbIndex } from "../src/lib/embedding.ts";
+import {
+  createStubProvider,
+  EvalFileError,
+  fitOutcomes,
+  formatComparison,
+  parseEvalCases,
+  parseEvalConfigs,
+  runEval,
+  summarize,
+} from "../src/lib/eval.ts";
+import {
+  CacheMissError,
+  createLlmCache,
+  withCache,
+} from "../src/lib/llm-cache.ts";
+import { createProviderFromEnv } from "../src/lib/providers.ts";
+
+// npm run eval -- questions.json [--configs configs.json] [--k 5,10,20]
+//   [--llm stub|replay|record|live] [--cache dir]
+//   [--as-of yyyy-mm-dd] [--concurrency 4] [--out report.json]
+//   [--fit-calibration data/confidence-calibration.json]
+function arg(name) {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+const positional = process.argv
+  .slice(2)
+  .filter((a, i, all) => !a.startsWith("--") && !all[i - 1]?.startsWith("--"));
+const questionsPath = positional[0];
+if (!questionsPath) {
+  console.error(
+    "Usage: npm run eval -- questions.json [--configs configs.json] [--k 5,10,20] [--llm stub|replay|record|live] [--cache dir] [--fit-calibration file]"
+  );
+  process.exit(1);
+}
+
+const readJson = (p) => JSON.parse(fs.readFileSync(p, "utf8"));
+const cases = parseEvalCases(readJson(questionsPath));
+const configsPath = arg("--configs");
+const configs = configsPath
+  ? parseEvalConfigs(readJson(configsPath))
+  : [{ name: "default" }];
+const ks = (arg("--k") ?? "5,10,20")
+  .split(",")
+  .map(Number)
+  .filter((k) => k > 0);
+const concurrency = Number(arg("--concurrency") ?? 4);
+const asOf = arg("--as-of");
+
+// Calls go through the LLM cache (src/lib/llm-cache.ts; --cache, default
+// LLM_CACHE_DIR), so responses recorded by the app replay here too.
+// stub: no generation model; query embeddings replayed from the cache
+// replay: generation and embeddings from the cache only, never the network
+// record: call the configured provider, caching new responses
+// live: call the configured provider, cache untouched
+const mode = arg("--llm") ?? "stub";
+if (!["stub", "replay", "record", "live"].includes(mode)) {
+  console.error(`Unknown --llm mode "${mode}"`);
+  process.exit(1);
+}
+const cache = createLlmCache({
+  mode: mode === "live" ? "bypass" : mode === "record" ? "record" : "replay",
+  dir: arg("--cache") ?? process.env.LLM_CACHE_DIR,
+});
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+// Fitting needs raw scores, so the run ignores any existing calibration
+const fitPath = arg("--fit-calibration");
+if (fitPath && configs.length > 1) {
+  fail("--fit-calibration fits one config; drop --configs or list one.");
+}
+if (fitPath && mode === "stub") {
+  fail(
+    "--fit-calibration needs real verdicts: use --llm record, replay or live."
+  );
+}
+
+let provider = withCache(createProviderFromEnv(), cache);
+if (mode === "stub") {
+  const index = getEmbIndex();
+  let embedder;
+  // Hashed query vectors only match an index built by the fake provider;
+  // any other index needs real query embeddings, replayed from the cache
+  if (index.model !== `fake-embedding-${index.dim}`) {
+    if (provider.embedModel !== index.model) {
+      fail(
+        `The embedding index was built with ${index.model}, but the configured provider embeds with ${provider.embedModel}; set the provider that built it.`
+      );
+    }
+    if (!fs.existsSync(cache.dir)) {
+      fail(
+        `No LLM cache at ${cache.dir} for ${index.model} query embeddings; run once with --llm record.`
+      );
+    }
+    const replayed =
+      (embed) =>
+      (...args) =>
+        embed(...args).catch((err) => {
+          if (!(err instanceof CacheMissError)) throw err;
+          fail(
+            `A query embedding is not in the cache (${cache.dir}); rerun with --llm record to fill it.`
+          );
+        });
+    embedder = {
+      ...provider,
+      embedQuery: replayed(provider.embedQuery),
+      embedDocument: replayed(provider.embedDocument),
+    };
+  }
+  provider = createStubProvider({ dim: index.dim, embedder });
+}
+
+console.log(
+  `${cases.length} questions, ${configs.length} config(s), generation: ${mode === "stub" ? "stub" : `${provider.name}/${provider.model}`}${cache.mode === "bypass" ? "" : ` (cache: ${cache.dir})`}`
+);
+
+const runs = [];
+for (const config of configs) {
+  const ctx = await loadCheckContext({
+    retrieval: config.retrieval,
+    debug: true,
+    debugHits: Math.max(...ks),
+    asOf,
+    provider,
+    calibration: fitPath ? null : undefined,
+  });
+  const started = Date.now();
+  const outcomes = await runEval(ctx, cases, concurrency);
+  runs.push({
+    name: config.name,
+    retrieval: ctx.retrieval,
+    calibration: ctx.calibration,
+    metrics: summarize(outcomes, ks),
+    outcomes,
+  });
+  console.log(`${config.name}: ${((Date.now() - started) / 1000).toFixed(1)}s`);
+}
+
+console.log();
+console.log(formatComparison(runs, ks));
+const { calibration } = runs[0];
+console.log(
+  `\nConfidence: ${calibration ? `calibrated on ${calibration.cases} questions (${calibration.fittedAt})` : "raw scores"}`
+);
+if (cache.mode === "replay" && cache.stats.misses) {
+  console.warn(
+    `\n${cache.stats.misses} call(s) had no cached response; rerun with --llm record to fill the cache.`
+  );
+}
+
+if (fitPath) {
+  let fit;
+  try {
+    fit = fitOutcomes(runs[0].outcomes);
+  } catch (err) {
+    if (!(err instanceof EvalFileError)) throw err;
+    fail(`Cannot fit calibration: ${err.message}`);
+  }
+  const pct = (v) => (v === null ? "-" : `${(v * 100).toFixed(1)}%`);
+  fs.mkdirSync(path.dirname(path.resolve(fitPath)), { recursive: true });
+  fs.writeFileSync(fitPath, JSON.stringify(fit.calibration, null, 2));
+  console.log(
+    `\nFitted calibration on ${fit.calibration.cases} questions (a ${fit.calibration.a.toFixed(3)}, b ${fit.calibration.b.toFixed(3)}): calibration error ${pct(fit.before)} -> ${pct(fit.after)} on the same questions. Wrote ${fitPath}`
+  );
+}
+
+const outPath = arg("--out");
+if (outPath) {
+  fs.writeFileSync(outPath, JSON.stringify({ ks, runs }, null, 2));
+  console.log(`\nWrote ${outPath}`);
+}
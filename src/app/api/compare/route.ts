@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { compareResultSets, ResultSetSchema } from "../../../lib/compare";
+import { reviewedResult } from "../../../lib/review";
+import { getRun } from "../../../lib/runs";
+import type { ResultSet } from "../../../types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+class BadRequest extends Error {}
+
+// Either side is a saved run id or an inline { questions, results } set.
+// Saved runs compare as reviewed (overridden status, edited citations),
+// like their exports, unless `automated` asks for the checker's verdicts.
+async function resolve(
+  side: unknown,
+  label: string,
+  automated: boolean
+): Promise<ResultSet> {
+  if (
+    side &&
+    typeof side === "object" &&
+    "runId" in side &&
+    typeof side.runId === "string"
+  ) {
+    const run = await getRun(side.runId);
+    if (!run) throw new BadRequest(`${label}: run ${side.runId} not found`);
+    const results = automated
+      ? run.results
+      : run.results.map((r) => reviewedResult(r, run.reviews[r.questionId]));
+    return { name: run.name, questions: run.questions, results };
+  }
+  const parsed = ResultSetSchema.safeParse(side);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const at = issue.path.length ? ` at ${issue.path.join(".")}` : "";
+    throw new BadRequest(
+      `${label}: provide { runId } or { questions, results } (${issue.message}${at})`
+    );
+  }
+  return parsed.data;
+}
+
+// POST /api/compare { before, after, automated? } → { comparison: RunComparison }
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json().catch(() => null)) as {
+      before?: unknown;
+      after?: unknown;
+      automated?: unknown;
+    } | null;
+    const automated = body?.automated === true;
+    const before = await resolve(body?.before, "before", automated);
+    const after = await resolve(body?.after, "after", automated);
+
+    const comparison = compareResultSets(before, after);
+    return new Response(JSON.stringify({ comparison }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    if (err instanceof BadRequest) {
+      return new Response(JSON.stringify({ error: msg }), { status: 400 });
+    }
+    console.error(msg);
+    return new Response(JSON.stringify({ error: msg }), { status: 500 });
+  }
+}
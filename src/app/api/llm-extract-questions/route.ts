@@ -1,86 +1,52 @@
 import { NextRequest } from "next/server";
+import { z } from "zod";
+import { getProvider } from "../../../lib/providers";
+import type { ExtractionChunk } from "../../../types";
+import { pMap } from "../../../lib/pmap";
+import {
+  generateStructured,
+  SchemaValidationError,
+} from "../../../lib/structured";
+import {
+  findReferences,
+  mergeQuestions,
+  pageWindows,
+  normalizeText as normalize,
+  STARTERS,
+  uniqueRefs,
+  type ParsedQuestion,
+  type QuestionnairePage,
+} from "../../../lib/questionnaire";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type LlmOut = { questions: string[] };
-
-const API_KEY = process.env.GOOGLE_API_KEY || "";
-const MODEL_ID = "gemini-2.5-flash-lite";
+// Objects as asked for; bare strings are still accepted
+const ExtractionSchema = z.object({
+  questions: z.array(
+    z.union([
+      z.string(),
+      z.object({
+        text: z.string(),
+        number: z.union([z.string(), z.number()]).nullish(),
+        section: z.string().nullish(),
+        page: z.coerce.number().nullish(),
+        references: z.array(z.string()).nullish(),
+      }),
+    ])
+  ),
+});
+
+type WindowResult = { questions: ParsedQuestion[] } | { error: string };
+
+// Page windows sent to the model, and how many are in flight at once
+const WINDOW_PAGES = Number(process.env.EXTRACT_WINDOW_PAGES ?? 4);
+const OVERLAP_PAGES = Number(process.env.EXTRACT_OVERLAP_PAGES ?? 1);
+const WINDOW_CHARS = Number(process.env.EXTRACT_WINDOW_CHARS ?? 24000);
+const CONCURRENCY = Number(process.env.EXTRACT_CONCURRENCY ?? 3);
 
 // --- helpers ---------------------------------------------------------------
 
-function tryParseJsonFromText(text: string): LlmOut | null {
-  const trimmed = text.trim();
-
-  // First try to find JSON object in the text
-  const jsonMatch = trimmed.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) return null;
-
-  const jsonText = jsonMatch[0];
-
-  // Try to fix common JSON issues
-  try {
-    return JSON.parse(jsonText) as LlmOut;
-  } catch {
-    // Try to fix trailing commas
-    try {
-      const fixedJson = jsonText
-        .replace(/,(\s*[}\]])/g, "$1") // Remove trailing commas before } or ]
-        .replace(/,(\s*$)/g, ""); // Remove trailing commas at end
-      return JSON.parse(fixedJson) as LlmOut;
-    } catch {
-      // Try to extract just the questions array if the object structure is malformed
-      try {
-        const questionsMatch = jsonText.match(
-          /"questions"\s*:\s*\[([\s\S]*?)\]/
-        );
-        if (questionsMatch) {
-          const questionsText = questionsMatch[1];
-          // Split by comma and clean up each question
-          const questions = questionsText
-            .split(",")
-            .map((q) => q.trim().replace(/^["']|["']$/g, ""))
-            .filter((q) => q.length > 0);
-          return { questions };
-        }
-      } catch {
-        // If JSON is truncated, try to extract questions from what we have
-        const truncatedMatch = jsonText.match(/"questions"\s*:\s*\[([\s\S]*)/);
-        if (truncatedMatch) {
-          const questionsText = truncatedMatch[1];
-          // Split by comma and clean up each question, handling incomplete last question
-          const questions = questionsText
-            .split(",")
-            .map((q) => q.trim().replace(/^["']|["']$/g, ""))
-            .filter(
-              (q) =>
-                q.length > 0 && !q.includes('"questions"') && !q.includes("}")
-            );
-          if (questions.length > 0) {
-            console.warn(
-              "JSON appears truncated, extracted partial questions:",
-              questions.length
-            );
-            return { questions };
-          }
-        }
-        return null;
-      }
-      return null;
-    }
-  }
-}
-
-function normalize(s: string): string {
-  return s
-    .replace(/\u00A0/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-const STARTERS = /^(does(?:\s+the\s+p&?p)?|do|is|are|will|shall|must)\s/i;
-
 function looksLikeQuestion(s: string): boolean {
   const t = s.trim();
   // More flexible: any string ending with ? or starting with common question words
@@ -91,100 +57,185 @@ function looksLikeQuestion(s: string): boolean {
   );
 }
 
-function cleanupAndDedupe(list: unknown[]): string[] {
-  const out: string[] = [];
+function optString(v: unknown): string | undefined {
+  if (typeof v === "number") return String(v);
+  return typeof v === "string" && normalize(v) ? normalize(v) : undefined;
+}
+
+// References found in the question text are added to whatever the model
+// listed
+function toParsed(
+  item: z.infer<typeof ExtractionSchema>["questions"][number],
+  lastPage: number
+): ParsedQuestion | null {
+  const obj = typeof item === "string" ? { text: item } : item;
+  let text = optString(obj.text);
+  if (!text) return null;
+
+  // Ensure trailing '?'
+  if (!text.endsWith("?")) text = `${text}?`;
+  if (!looksLikeQuestion(text)) return null;
+
+  const page = Number(obj.page);
+  const listed = Array.isArray(obj.references)
+    ? obj.references.map(optString).filter((r): r is string => !!r)
+    : [];
+  const references = uniqueRefs([...listed, ...findReferences(text)]);
+  return {
+    text,
+    number: optString(obj.number),
+    section: optString(obj.section),
+    page:
+      Number.isInteger(page) && page >= 1 && page <= lastPage
+        ? page
+        : undefined,
+    references: references.length ? references : undefined,
+  };
+}
+
+function cleanup(
+  list: z.infer<typeof ExtractionSchema>["questions"],
+  lastPage: number
+): ParsedQuestion[] {
+  const out: ParsedQuestion[] = [];
   const seen = new Set<string>();
 
   for (const item of list) {
-    if (typeof item !== "string") continue;
-    let q = normalize(item);
+    const q = toParsed(item, lastPage);
     if (!q) continue;
 
-    // Ensure trailing '?'
-    if (!q.endsWith("?")) q = `${q}?`;
-
-    if (!looksLikeQuestion(q)) continue;
-
-    const key = q.toLowerCase();
+    const key = q.text.toLowerCase();
     if (seen.has(key)) continue;
     seen.add(key);
     out.push(q);
   }
 
-  console.log(`Extracted ${out.length} questions`);
   return out;
 }
 
-async function callGeminiExtract(inputText: string): Promise<string[]> {
-  if (!API_KEY) throw new Error("Missing GOOGLE_API_KEY");
-
-  const url = `https://generativelanguage.googleapis.com/v1/models/${MODEL_ID}:generateContent?key=${encodeURIComponent(
-    API_KEY
-  )}`;
-
-  const prompt = `Extract audit questions from PDF text. Return JSON only:
-{"questions": ["question1", "question2"]}
-
-Rules: Questions only, end with ?, no trailing commas, valid JSON.
+async function callLlmExtract(
+  pages: QuestionnairePage[]
+): Promise<ParsedQuestion[]> {
+  const text = pages
+    .map((p) => `=== Page ${p.page} ===\n${p.text}`)
+    .join("\n\n");
+  const prompt = `Extract audit questions from questionnaire text. Pages are marked "=== Page N ===". Return JSON only:
+{"questions": [{"number": "3.2.a", "section": "3 Utilization Management", "page": 4, "text": "Does the P&P ...?", "references": ["APL 21-004", "Exhibit A, Attachment 5"]}]}
 
-Text: ${inputText}`;
+Rules: questions only, text ends with ?. "number" is the question's own number as printed (null if none; combine with the parent number for lettered sub-items, e.g. "3.2.a"). "section" is the enclosing section header (null if none). "page" is the page the question starts on. "references" lists the regulations, APLs and contract provisions cited with the question ([] if none). No trailing commas, valid JSON.
 
-  const body = {
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
-    generationConfig: {
-      temperature: 0.1, // Lower temperature for more consistent output
-    },
-  };
-
-  const resp = await fetch(url, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify(body),
-  });
-
-  if (!resp.ok) {
-    const msg = await resp.text();
-    throw new Error(`Gemini HTTP ${resp.status}: ${msg}`);
-  }
+Text:
+${text}`;
 
-  const data = (await resp.json()) as {
-    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
-  };
-  const llmResponse = data.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
-
-  const parsed = tryParseJsonFromText(llmResponse);
-  if (!parsed || !Array.isArray(parsed.questions)) {
-    // Check if response appears truncated
-    if (llmResponse.includes('"questions"') && !llmResponse.includes("]")) {
+  let parsed: z.infer<typeof ExtractionSchema>;
+  try {
+    // Lower temperature for more consistent output
+    parsed = await generateStructured(getProvider(), prompt, ExtractionSchema, {
+      label: `extraction p.${pages[0].page}-${pages[pages.length - 1].page}`,
+      temperature: 0.1,
+    });
+  } catch (err) {
+    // A cut-off reply means the window was too long, not a format slip
+    if (
+      err instanceof SchemaValidationError &&
+      err.raw.includes('"questions"') &&
+      !/[}\]]\s*(?:```)?\s*$/.test(err.raw)
+    )
       throw new Error("LLM response appears truncated");
-    }
-    throw new Error("Model did not return valid JSON with a questions array");
+    throw err;
   }
 
-  return cleanupAndDedupe(parsed.questions);
+  return cleanup(parsed.questions, Math.max(...pages.map((p) => p.page)));
 }
 
 // --- route -----------------------------------------------------------------
 
 export async function POST(req: NextRequest) {
   try {
-    const { text } = (await req.json()) as {
-      text: string;
+    // { pages } from the page-aware client; { text } is one page
+    const body = (await req.json()) as {
+      pages?: QuestionnairePage[];
+      text?: string;
     };
-
-    if (!text || typeof text !== "string") {
+    const pages =
+      typeof body.text === "string" && !body.pages
+        ? [{ page: 1, text: body.text }]
+        : body.pages;
+
+    if (
+      !Array.isArray(pages) ||
+      !pages.length ||
+      pages.some((p) => typeof p?.text !== "string")
+    ) {
       return new Response(
-        JSON.stringify({ error: "Provide { text: string }" }),
+        JSON.stringify({
+          error: "Provide { pages: { page: number, text: string }[] }",
+        }),
         {
           status: 400,
         }
       );
     }
 
-    const questions = await callGeminiExtract(text);
+    const windows = pageWindows(
+      pages.map((p, i) => ({ page: Number(p.page) || i + 1, text: p.text })),
+      {
+        size: WINDOW_PAGES,
+        overlap: Math.min(OVERLAP_PAGES, WINDOW_PAGES - 1),
+        maxChars: WINDOW_CHARS,
+      }
+    );
+
+    const results = await pMap(
+      windows,
+      CONCURRENCY,
+      async (w): Promise<WindowResult> => {
+        try {
+          return { questions: await callLlmExtract(w) };
+        } catch (err) {
+          return { error: err instanceof Error ? err.message : String(err) };
+        }
+      }
+    );
+
+    const chunks: ExtractionChunk[] = windows.map((w, index) => {
+      const r = results[index];
+      return {
+        index,
+        firstPage: w[0].page,
+        lastPage: w[w.length - 1].page,
+        ...("questions" in r
+          ? { status: "ok", count: r.questions.length }
+          : { status: "failed", error: r.error }),
+      };
+    });
+    const failed = chunks.filter((c) => c.status === "failed");
+    for (const c of failed) {
+      console.error(
+        `Extraction failed for pages ${c.firstPage}-${c.lastPage}: ${c.error}`
+      );
+    }
+    if (failed.length === chunks.length) {
+      return new Response(
+        JSON.stringify({ error: "Extraction failed for every page", chunks }),
+        { status: 500 }
+      );
+    }
+
+    const questions = mergeQuestions(
+      results.map((r) => ("questions" in r ? r.questions : []))
+    );
+    console.log(
+      `Extracted ${questions.length} questions from ${chunks.length} page windows (${failed.length} failed)`
+    );
 
     return new Response(
-      JSON.stringify({ questions, count: questions.length }),
+      JSON.stringify({
+        questions,
+        count: questions.length,
+        chunks,
+        failedChunks: failed.length,
+      }),
       {
         status: 200,
         headers: { "content-type": "application/json" },
@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { toQuestions } from "../../../lib/questionnaire";
+import {
+  formatOf,
+  parseQuestionnaireFile,
+  QuestionnaireFormatError,
+} from "../../../lib/questionnaire-files";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/parse-questionnaire (multipart/form-data)
+// file: .docx, .xlsx or .csv; optional questionColumn, idColumn (header
+// text or column letter) and sheet. PDFs are read in the browser instead.
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return new Response(
+        JSON.stringify({ error: "Provide a questionnaire file as `file`" }),
+        { status: 400 }
+      );
+    }
+    const format = formatOf(file.name);
+    if (!format) {
+      return new Response(
+        JSON.stringify({ error: "Supported formats: .docx, .xlsx, .csv" }),
+        { status: 400 }
+      );
+    }
+
+    const opt = (k: string) => {
+      const v = form.get(k);
+      return typeof v === "string" && v.trim() ? v.trim() : undefined;
+    };
+    const parsed = await parseQuestionnaireFile(
+      Buffer.from(await file.arrayBuffer()),
+      format,
+      {
+        questionColumn: opt("questionColumn"),
+        idColumn: opt("idColumn"),
+        sheet: opt("sheet"),
+      }
+    );
+    const questions = toQuestions(parsed);
+
+    return new Response(
+      JSON.stringify({ questions, count: questions.length, format }),
+      {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      }
+    );
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(msg);
+    return new Response(JSON.stringify({ error: msg }), {
+      status: err instanceof QuestionnaireFormatError ? 400 : 500,
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import fs from "node:fs";
+import { resolvePolicyFile } from "../../../../lib/policy-files";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ fileName: string }> };
+
+// GET /api/policies/:fileName
+// The source PDF of a policy, served inline for the citation viewer
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { fileName } = await params;
+    if (!/^[^/\\]+\.pdf$/i.test(fileName) || fileName.startsWith(".")) {
+      return new Response(
+        JSON.stringify({ error: "fileName must be a policy PDF file name" }),
+        { status: 400 }
+      );
+    }
+    const file = resolvePolicyFile(fileName);
+    if (!file) {
+      return new Response(JSON.stringify({ error: "Policy not found" }), {
+        status: 404,
+      });
+    }
+
+    const data = await fs.promises.readFile(file);
+    return new Response(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        "content-type": "application/pdf",
+        "content-length": String(data.length),
+        "content-disposition": `inline; filename="${fileName.replace(/"/g, "")}"`,
+        "cache-control": "private, max-age=3600",
+      },
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(msg);
+    return new Response(JSON.stringify({ error: msg }), { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import {
+  toCsv,
+  toHtmlReport,
+  toXlsx,
+  type ExportFormat,
+} from "../../../../../lib/export";
+import { getRun } from "../../../../../lib/runs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+const FORMATS: ExportFormat[] = ["csv", "xlsx", "html"];
+
+// File names end up in a header; keep them to safe characters
+function baseName(name: string): string {
+  return (
+    name
+      .replace(/\.[^.]+$/, "")
+      .replace(/[^A-Za-z0-9._-]+/g, "_")
+      .slice(0, 80) || "audit"
+  );
+}
+
+// GET /api/runs/:id/export?format=csv|xlsx|html
+// csv and xlsx download; html is the printable report (print to PDF)
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const format = (req.nextUrl.searchParams.get("format") ??
+      "csv") as ExportFormat;
+    if (!FORMATS.includes(format)) {
+      return new Response(
+        JSON.stringify({
+          error: `format must be one of ${FORMATS.join(", ")}`,
+        }),
+        { status: 400 }
+      );
+    }
+    const run = await getRun((await params).id);
+    if (!run) {
+      return new Response(JSON.stringify({ error: "Run not found" }), {
+        status: 404,
+      });
+    }
+
+    const file = `${baseName(run.name)}-results.${format}`;
+    if (format === "html") {
+      return new Response(toHtmlReport(run), {
+        status: 200,
+        headers: { "content-type": "text/html; charset=utf-8" },
+      });
+    }
+    const body =
+      format === "csv" ? toCsv(run) : new Uint8Array(await toXlsx(run));
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "content-type":
+          format === "csv"
+            ? "text/csv; charset=utf-8"
+            : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "content-disposition": `attachment; filename="${file}"`,
+      },
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(msg);
+    return new Response(JSON.stringify({ error: msg }), { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest } from "next/server";
+import { verifyCitation } from "../../../../../lib/citations";
+import { getDb } from "../../../../../lib/db";
+import {
+  getPolicyMetaIndex,
+  parsePolicyFileName,
+} from "../../../../../lib/policy-meta";
+import { foldReviews } from "../../../../../lib/review";
+import {
+  addReviewEvent,
+  getRun,
+  RunConflictError,
+} from "../../../../../lib/runs";
+import type { Evidence, ReviewAction, Status } from "../../../../../types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+const STATUSES: Status[] = ["Met", "Partially Met", "Not Met", "Undetermined"];
+
+class BadRequest extends Error {}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+// Reviewer citations get the same verification and policy tagging as the
+// checker's own
+async function prepareCitations(raw: unknown): Promise<Evidence[]> {
+  if (!Array.isArray(raw)) throw new BadRequest("citations must be an array");
+  const db = getDb();
+  const metas = await getPolicyMetaIndex();
+  return raw.map((c: Partial<Evidence>) => {
+    if (!str(c?.snippet) || !str(c?.fileName) || !(Number(c?.page) >= 1))
+      throw new BadRequest("each citation needs snippet, fileName and page");
+    const fileName = str(c.fileName);
+    const meta = metas.get(fileName) ?? parsePolicyFileName(fileName);
+    return verifyCitation(
+      {
+        snippet: str(c.snippet),
+        fileName,
+        page: Number(c.page),
+        covers: str(c.covers) || undefined,
+        policyId: meta?.policyId,
+        effectiveDate: meta?.effectiveDate,
+      },
+      db
+    );
+  });
+}
+
+async function parseAction(raw: Partial<ReviewAction>): Promise<ReviewAction> {
+  switch (raw?.type) {
+    case "accept":
+      return { type: "accept" };
+    case "override": {
+      const { status, justification } = raw as { [k: string]: unknown };
+      if (!STATUSES.includes(status as Status))
+        throw new BadRequest(`status must be one of ${STATUSES.join(", ")}`);
+      if (!str(justification))
+        throw new BadRequest("an override needs a justification");
+      return {
+        type: "override",
+        status: status as Status,
+        justification: str(justification),
+      };
+    }
+    case "citations":
+      return {
+        type: "citations",
+        citations: await prepareCitations(
+          (raw as { citations?: unknown }).citations
+        ),
+      };
+    case "comment": {
+      const text = str((raw as { text?: unknown }).text);
+      if (!text) throw new BadRequest("comment text is empty");
+      return { type: "comment", text };
+    }
+    default:
+      throw new BadRequest(
+        "action.type must be accept, override, citations or comment"
+      );
+  }
+}
+
+// POST /api/runs/:id/reviews { questionId, reviewer, action }
+// → { event, review } with the question's updated review
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const id = (await params).id;
+    const body = (await req.json()) as {
+      questionId?: unknown;
+      reviewer?: unknown;
+      action?: Partial<ReviewAction>;
+    };
+    const reviewer = str(body?.reviewer);
+    if (!reviewer) throw new BadRequest("Provide a reviewer name");
+
+    const run = await getRun(id);
+    if (!run) return json({ error: "Run not found" }, 404);
+    const questionId = str(body.questionId);
+    if (!run.results.some((r) => r.questionId === questionId))
+      throw new BadRequest(`No result for question "${questionId}"`);
+
+    const action = await parseAction(body.action ?? {});
+    const event = await addReviewEvent(id, { questionId, reviewer, action });
+    if (!event) return json({ error: "Run not found" }, 404);
+
+    const review = foldReviews([...run.trail, event])[questionId];
+    return json({ event, review });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    if (err instanceof BadRequest) return json({ error: msg }, 400);
+    if (err instanceof RunConflictError) return json({ error: msg }, 409);
+    console.error(msg);
+    return json({ error: msg }, 500);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import {
+  deleteRun,
+  getRun,
+  renameRun,
+  RunConflictError,
+} from "../../../../lib/runs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// Signed-off and reviewed runs refuse some writes: 409 rather than 500
+function serverError(err: unknown) {
+  const msg = err instanceof Error ? err.message : String(err);
+  if (err instanceof RunConflictError) return json({ error: msg }, 409);
+  console.error(msg);
+  return json({ error: msg }, 500);
+}
+
+// GET /api/runs/:id → { run: AuditRun }
+export async function GET(_req: NextRequest, { params }: Params) {
+  try {
+    const run = await getRun((await params).id);
+    if (!run) return json({ error: "Run not found" }, 404);
+    return json({ run });
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
+
+// PATCH /api/runs/:id { name } → { run: AuditRunSummary }
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const body = (await req.json()) as { name?: unknown };
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name) return json({ error: "Provide { name: string }" }, 400);
+    const run = await renameRun((await params).id, name);
+    if (!run) return json({ error: "Run not found" }, 404);
+    return json({ run });
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
+
+// DELETE /api/runs/:id → { ok: true }
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  try {
+    const ok = await deleteRun((await params).id);
+    if (!ok) return json({ error: "Run not found" }, 404);
+    return json({ ok: true });
+  } catch (err: unknown) {
+    return serverError(err);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { RunConflictError, signOffRun } from "../../../../../lib/runs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// POST /api/runs/:id/sign-off { reviewer } → { run: AuditRunSummary }
+// 409 while questions are unchecked or results unreviewed, or when already
+// signed off
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const body = (await req.json()) as { reviewer?: unknown };
+    const reviewer =
+      typeof body?.reviewer === "string" ? body.reviewer.trim() : "";
+    if (!reviewer) return json({ error: "Provide a reviewer name" }, 400);
+
+    const run = await signOffRun((await params).id, reviewer);
+    if (!run) return json({ error: "Run not found" }, 404);
+    return json({ run });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    if (err instanceof RunConflictError) return json({ error: msg }, 409);
+    console.error(msg);
+    return json({ error: msg }, 500);
+  }
+}
@@ -0,0 +1,19 @@
+import { listRuns } from "../../../lib/runs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/runs → { runs: AuditRunSummary[] }, newest first
+export async function GET() {
+  try {
+    const runs = await listRuns();
+    return new Response(JSON.stringify({ runs }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(msg);
+    return new Response(JSON.stringify({ error: msg }), { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import Link from "next/link";
+import CompareClient from "../../components/CompareClient";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function ComparePage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="mx-auto max-w-6xl p-6">
+        <header className="mb-8">
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Back to compliance analysis
+          </Link>
+          <h1 className="mt-3 text-3xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+            Run Comparison
+          </h1>
+          <p className="mt-2 text-gray-600">
+            Compare two runs of the same questionnaire, e.g. before and after a
+            policy refresh. Questions are matched by text.
+          </p>
+        </header>
+
+        <CompareClient />
+      </div>
+    </main>
+  );
+}
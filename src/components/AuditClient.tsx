@@ -1,6 +1,7 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import Link from "next/link";
 import {
   Button,
   Card,
@@ -10,6 +11,8 @@ import {
   Divider,
   Input,
   Progress,
+  Select,
+  SelectItem,
   Tabs,
   Tab,
   Alert,
@@ -23,143 +26,384 @@ import {
   ClockIcon,
   ExclamationTriangleIcon,
   InformationCircleIcon,
+  MinusCircleIcon,
+  QuestionMarkCircleIcon,
+  StopIcon,
+  ArchiveBoxIcon,
+  ArrowDownTrayIcon,
+  ArrowsRightLeftIcon,
+  PrinterIcon,
+  TableCellsIcon,
+  LockClosedIcon,
 } from "@heroicons/react/24/outline";
-import type { Question } from "../types";
+import PolicyViewer from "./PolicyViewer";
+import ReviewPanel from "./ReviewPanel";
+import RunHistory from "./RunHistory";
+import { confidenceBand, type ConfidenceBand } from "../lib/confidence";
+import { loadPdfjs } from "../lib/pdfjs";
+import {
+  findExplicitQuestions,
+  normalizeText,
+  parseQuestionnairePages,
+  toQuestions,
+  type ParsedQuestion,
+  type QuestionnairePage,
+} from "../lib/questionnaire";
+import { isReviewed, reviewedResult } from "../lib/review";
+import type { ExportFormat } from "../lib/export";
+import type {
+  AuditRun,
+  AuditRunSummary,
+  CheckResult,
+  CheckStreamEvent,
+  CitationCheck,
+  ConfidenceFactors,
+  ElementResult,
+  Evidence,
+  ExtractionChunk,
+  Question,
+  ResultReview,
+  ReviewAction,
+  ReviewEvent,
+  Status,
+  UndeterminedReason,
+} from "../types";
+
+type StatusTab = "met" | "partial" | "not-met" | "undetermined";
+
+// Questionnaire uploads: PDF is read in the browser, the rest on the server
+const QUESTIONNAIRE_TYPES = [
+  "application/pdf",
+  ".docx",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".csv",
+  "text/csv",
+].join(",");
+
+// One results tab per verdict, in display order
+const STATUS_TABS: Array<{
+  key: StatusTab;
+  status: Status;
+  color: "success" | "warning" | "danger" | "default";
+  icon: typeof CheckCircleIcon;
+}> = [
+  { key: "met", status: "Met", color: "success", icon: CheckCircleIcon },
+  {
+    key: "partial",
+    status: "Partially Met",
+    color: "warning",
+    icon: MinusCircleIcon,
+  },
+  { key: "not-met", status: "Not Met", color: "danger", icon: XCircleIcon },
+  {
+    key: "undetermined",
+    status: "Undetermined",
+    color: "default",
+    icon: QuestionMarkCircleIcon,
+  },
+];
+
+const REASON_LABELS: Record<UndeterminedReason, string> = {
+  EMBEDDING_FAILED: "Query embedding failed",
+  NO_PAGES: "No policy pages retrieved",
+  LLM_FAILED: "Model call failed",
+  RETRIES_EXHAUSTED: "Model provider kept failing after retries",
+  CIRCUIT_OPEN: "Model calls paused after repeated provider failures",
+  INVALID_RESPONSE: "Model returned an invalid verdict",
+};
+
+const CITATION_CHIPS: Record<
+  CitationCheck["status"],
+  { color: "success" | "warning" | "danger"; label: string }
+> = {
+  verified: { color: "success", label: "Verified" },
+  approximate: { color: "warning", label: "Approximate" },
+  unverified: { color: "danger", label: "Unverified" },
+};
+
+function CitationChip({ check }: { check: CitationCheck }) {
+  const chip = CITATION_CHIPS[check.status];
+  return (
+    <Chip color={chip.color} variant="flat" size="sm">
+      {chip.label} {Math.round(check.score * 100)}%
+      {check.citedPage !== undefined && ` (cited p.${check.citedPage})`}
+    </Chip>
+  );
+}
 
-type CheckResult = {
-  questionId: string;
-  status: "Met" | "Not Met";
-  evidence?: { snippet: string; fileName: string; page: number };
-  rationale?: string;
+const CONFIDENCE_CHIPS: Record<
+  ConfidenceBand,
+  { color: "success" | "warning" | "danger"; label: string }
+> = {
+  high: { color: "success", label: "High" },
+  medium: { color: "warning", label: "Medium" },
+  low: { color: "danger", label: "Low" },
 };
 
-const STARTERS = /^(does(?:\s+the\s+p&?p)?|do|is|are|will|shall|must)\s/i;
+// Low-confidence first puts the results most in need of review on top
+type ResultSort = "question" | "confidence-asc" | "confidence-desc";
+
+const RESULT_SORTS: Array<{ key: ResultSort; label: string }> = [
+  { key: "question", label: "Question order" },
+  { key: "confidence-asc", label: "Lowest confidence first" },
+  { key: "confidence-desc", label: "Highest confidence first" },
+];
 
-function normalizeText(s: string): string {
-  return s
-    .replace(/\u00A0/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
+function ConfidenceChip({
+  confidence,
+  calibrated,
+  factors,
+}: {
+  confidence: number;
+  calibrated?: boolean;
+  factors?: ConfidenceFactors;
+}) {
+  const chip = CONFIDENCE_CHIPS[confidenceBand(confidence)];
+  const fixed = (v: number) => v.toFixed(2);
+  const title = [
+    calibrated
+      ? "Calibrated probability that the verdict is correct"
+      : "Uncalibrated score, not a probability",
+    factors && `model ${fixed(factors.model)}`,
+    factors?.retrieval !== undefined && `retrieval ${fixed(factors.retrieval)}`,
+    factors?.citations !== undefined && `citations ${fixed(factors.citations)}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  return (
+    <Chip color={chip.color} variant="dot" size="sm" title={title}>
+      {chip.label} confidence {fixed(confidence)}
+    </Chip>
+  );
 }
 
-function extractExplicitQuestions(text: string): string[] {
-  const out: string[] = [];
-  const re =
-    /((?:Does(?:\s+the\s+P&?P)?|Do|Is|Are|Will|Shall|Must)[^?]{8,}?\?)/gi;
-  for (const m of text.matchAll(re)) out.push(normalizeText(m[1]));
-  return out;
+// Questionnaire page and cited regulations of a question
+function QuestionSource({ question }: { question: Question }) {
+  if (!question.page && !question.references?.length) return null;
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+      {question.page && <span>questionnaire p.{question.page}</span>}
+      {question.references?.map((ref) => (
+        <Chip key={ref} size="sm" variant="flat" color="secondary">
+          {ref}
+        </Chip>
+      ))}
+    </div>
+  );
 }
 
-function extractHeuristicQuestions(text: string): string[] {
-  const lines = text
-    .split(/[\r\n]+/)
-    .map(normalizeText)
-    .filter(Boolean);
-  const candidates: string[] = [];
-  for (let i = 0; i < lines.length; i++) {
-    const ln = lines[i];
-    if (STARTERS.test(ln)) {
-      let merged = ln;
-      let lookahead = 0;
-      while (
-        lookahead < 2 &&
-        i + 1 < lines.length &&
-        lines[i + 1].length < 160
-      ) {
-        merged = `${merged} ${lines[i + 1]}`.trim();
-        i++;
-        lookahead++;
-      }
-      candidates.push(merged);
-    }
+// Per-element verdicts for a decomposed requirement
+function ElementBreakdown({ elements }: { elements: ElementResult[] }) {
+  return (
+    <div className="mt-4 p-3 bg-white rounded-lg border">
+      <div className="text-xs font-medium text-gray-600 uppercase tracking-wide mb-2">
+        Requirement elements
+      </div>
+      <ul className="space-y-2">
+        {elements.map((e, i) => {
+          const tab =
+            STATUS_TABS.find((t) => t.status === e.status) ?? STATUS_TABS[3];
+          return (
+            <li key={i} className="flex items-start justify-between gap-3">
+              <span className="text-sm text-gray-700 leading-relaxed">
+                {i + 1}. {e.text}
+                {e.reason && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    ({REASON_LABELS[e.reason]})
+                  </span>
+                )}
+              </span>
+              <div className="flex shrink-0 items-center gap-1">
+                {e.confidence !== undefined && (
+                  <ConfidenceChip
+                    confidence={e.confidence}
+                    calibrated={e.confidenceCalibrated}
+                    factors={e.confidenceFactors}
+                  />
+                )}
+                <Chip
+                  color={tab.color}
+                  variant="flat"
+                  size="sm"
+                  startContent={<tab.icon className="w-3 h-3" />}
+                >
+                  {e.status}
+                </Chip>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+// Citations grouped by policy document, in the order the model gave them
+function EvidenceList({
+  citations,
+  onOpen,
+}: {
+  citations: Evidence[];
+  onOpen: (c: Evidence) => void;
+}) {
+  const byFile = new Map<string, Evidence[]>();
+  for (const c of citations) {
+    const list = byFile.get(c.fileName) ?? [];
+    list.push(c);
+    byFile.set(c.fileName, list);
   }
-  const paras = text
-    .split(/\n{2,}/)
-    .map(normalizeText)
-    .filter(Boolean);
-  for (const p of paras)
-    if (STARTERS.test(p) && p.length >= 12) candidates.push(p);
-
-  const seen = new Set<string>();
-  return candidates
-    .map(normalizeText)
-    .filter((q) => q.length >= 12 && q.length <= 600)
-    .filter((q) => {
-      const k = q.toLowerCase();
-      if (seen.has(k)) return false;
-      seen.add(k);
-      return true;
-    });
+
+  return (
+    <div className="mt-4 p-3 bg-gray-50 rounded-lg border">
+      <div className="flex items-start gap-2 mb-2">
+        <DocumentTextIcon className="w-4 h-4 text-gray-500 mt-0.5" />
+        <span className="text-xs font-medium text-gray-600 uppercase tracking-wide">
+          Evidence ({citations.length})
+        </span>
+      </div>
+      <div className="space-y-3">
+        {[...byFile.entries()].map(([fileName, list]) => (
+          <div key={fileName}>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 font-medium mb-1">
+              <span>📄 {fileName}</span>
+              {list[0].policyId && (
+                <Chip variant="flat" size="sm">
+                  {list[0].policyId}
+                  {list[0].effectiveDate &&
+                    ` · effective ${list[0].effectiveDate}`}
+                </Chip>
+              )}
+            </div>
+            <div className="space-y-2">
+              {list.map((c, i) => (
+                <div key={i}>
+                  <blockquote className="text-sm text-gray-800 italic leading-relaxed border-l-2 border-blue-200 pl-3">
+                    &ldquo;{c.snippet}&rdquo;
+                  </blockquote>
+                  <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500 font-medium pl-3">
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:underline"
+                      onClick={() => onOpen(c)}
+                    >
+                      page {c.page}
+                    </button>
+                    {c.covers && <span>· covers: {c.covers}</span>}
+                    {c.verification && <CitationChip check={c.verification} />}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
 }
 
-// Client-side PDF text extraction + AI question extraction
-async function extractQuestionsFromPdfWithAI(file: File): Promise<Question[]> {
+// Reviewer name is remembered per browser
+const REVIEWER_KEY = "readily.reviewer";
+
+// Server-side exports of the saved run
+const EXPORTS: Array<{
+  format: ExportFormat;
+  label: string;
+  icon: typeof CheckCircleIcon;
+}> = [
+  { format: "csv", label: "CSV", icon: TableCellsIcon },
+  { format: "xlsx", label: "Excel", icon: TableCellsIcon },
+  { format: "html", label: "Print report", icon: PrinterIcon },
+];
+
+// Hex sha256 of the uploaded questionnaire, recorded with each run
+async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await file.arrayBuffer()
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Client-side PDF text extraction (per page, line breaks kept) + AI
+// question extraction. `failed` lists page windows the model could not
+// extract; their questions may be missing.
+async function extractQuestionsFromPdfWithAI(
+  file: File
+): Promise<{ questions: Question[]; failed: ExtractionChunk[] }> {
   const buf = new Uint8Array(await file.arrayBuffer());
 
   // Load pdf.js (legacy ESM) in the browser
-  type PdfjsWithVersion = typeof import("pdfjs-dist/legacy/build/pdf.mjs") & {
-    version?: string;
-  };
-  const pdfjs = (await import(
-    "pdfjs-dist/legacy/build/pdf.mjs"
-  )) as PdfjsWithVersion;
-
-  // Match worker version to the imported api version
-  const version = pdfjs.version ?? "4.10.38";
-  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+  const pdfjs = await loadPdfjs();
 
-  // Extract full text
   const doc = await pdfjs.getDocument({ data: buf }).promise;
-  let all = "";
+  const pages: QuestionnairePage[] = [];
   try {
     for (let i = 1; i <= doc.numPages; i++) {
       const page = await doc.getPage(i);
       const content = await page.getTextContent();
-      const text = (content.items as Array<{ str?: string }>)
-        .map((it) => (typeof it.str === "string" ? it.str : ""))
-        .join(" ");
-      all += " " + text;
+      const text = (content.items as Array<{ str?: string; hasEOL?: boolean }>)
+        .map((it) => (it.str ?? "") + (it.hasEOL ? "\n" : " "))
+        .join("")
+        .split("\n")
+        .map(normalizeText)
+        .join("\n");
+      pages.push({ page: i, text });
     }
   } finally {
     await doc.destroy();
   }
 
-  const normalized = normalizeText(all);
-
   // Primary: AI extraction for precise, deduped questions
   try {
     const res = await fetch("/api/llm-extract-questions", {
       method: "POST",
       headers: { "content-type": "application/json" },
-      body: JSON.stringify({ text: normalized }),
+      body: JSON.stringify({ pages }),
     });
     if (res.ok) {
       const data = (await res.json()) as {
-        questions?: string[];
+        questions?: ParsedQuestion[];
         count?: number;
+        chunks?: ExtractionChunk[];
       };
       const arr = Array.isArray(data.questions) ? data.questions : [];
       if (arr.length > 0) {
-        return arr.map((text, i) => ({ id: `q_${i + 1}`, text }));
+        return {
+          questions: toQuestions(arr),
+          failed: (data.chunks ?? []).filter((c) => c.status === "failed"),
+        };
       }
     }
   } catch {
     // fall through to heuristics
   }
 
-  // Fallback: local heuristics
-  let list = extractExplicitQuestions(normalized);
-  if (list.length === 0) list = extractHeuristicQuestions(normalized);
+  // Fallback: local page-aware parser
+  let list = parseQuestionnairePages(pages);
+  if (list.length === 0) list = findExplicitQuestions(pages);
+  return { questions: toQuestions(list), failed: [] };
+}
 
-  const seen = new Set<string>();
-  const deduped = list.map(normalizeText).filter((q) => {
-    const k = q.toLowerCase();
-    if (seen.has(k)) return false;
-    seen.add(k);
-    return true;
+// DOCX, XLSX and CSV questionnaires are parsed on the server
+async function parseQuestionnaireOnServer(
+  file: File,
+  columns: { questionColumn: string; idColumn: string }
+): Promise<{ questions: Question[]; failed: ExtractionChunk[] }> {
+  const form = new FormData();
+  form.set("file", file);
+  form.set("questionColumn", columns.questionColumn);
+  form.set("idColumn", columns.idColumn);
+  const res = await fetch("/api/parse-questionnaire", {
+    method: "POST",
+    body: form,
   });
-
-  return deduped.map((text, i) => ({ id: `q_${i + 1}`, text }));
+  const data = (await res.json()) as { questions?: Question[]; error?: string };
+  if (!res.ok) throw new Error(data.error ?? `parsing failed: ${res.status}`);
+  return { questions: data.questions ?? [], failed: [] };
 }
 
 export default function AuditClient() {
@@ -169,28 +413,64 @@ export default function AuditClient() {
   const [checking, setChecking] = useState(false);
   const [results, setResults] = useState<CheckResult[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<"met" | "not-met">("met");
+  const [warning, setWarning] = useState<string | null>(null); // partial extraction
+  // Spreadsheet columns; empty = detected from the header row
+  const [columns, setColumns] = useState({ questionColumn: "", idColumn: "" });
+  const [activeTab, setActiveTab] = useState<StatusTab>("met");
+  const [sortBy, setSortBy] = useState<ResultSort>("question");
+  const [band, setBand] = useState<ConfidenceBand | "all">("all");
   const [progress, setProgress] = useState(0);
+  const [asOf, setAsOf] = useState(""); // audit date, "" = latest policies
+  const [checked, setChecked] = useState({ done: 0, total: 0 });
+  const abortRef = useRef<AbortController | null>(null);
+  // Saved run currently shown, and the questionnaire it came from
+  const [runId, setRunId] = useState<string | null>(null);
+  const [questionnaire, setQuestionnaire] = useState<{
+    name: string;
+    sha256: string;
+  } | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+  // Human review of the saved run
+  const [reviews, setReviews] = useState<Record<string, ResultReview>>({});
+  const [trail, setTrail] = useState<ReviewEvent[]>([]);
+  const [signedOff, setSignedOff] = useState<{ by: string; at: string } | null>(
+    null
+  );
+  const [reviewer, setReviewer] = useState("");
+  const [viewing, setViewing] = useState<Evidence | null>(null); // cited page
   const [isHydrated, setIsHydrated] = useState(false);
 
   useEffect(() => {
     setIsHydrated(true);
+    setReviewer(localStorage.getItem(REVIEWER_KEY) ?? "");
   }, []);
 
+  const resetReview = () => {
+    setReviews({});
+    setTrail([]);
+    setSignedOff(null);
+  };
+
   const onChooseFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0] ?? null;
     setFile(f);
     setQuestions([]);
     setResults([]);
+    resetReview();
     setError(null);
+    setWarning(null);
+    setRunId(null);
+    setQuestionnaire(null);
   };
 
   const handleExtract = async () => {
     if (!file) return;
     setExtracting(true);
     setError(null);
+    setWarning(null);
     setQuestions([]);
     setResults([]);
+    resetReview();
     setProgress(0);
 
     // Simulate progress
@@ -199,12 +479,26 @@ export default function AuditClient() {
     }, 200);
 
     try {
-      const qs = await extractQuestionsFromPdfWithAI(file);
+      setRunId(null);
+      setQuestionnaire({ name: file.name, sha256: await sha256Hex(file) });
+      const { questions: qs, failed } = /\.pdf$/i.test(file.name)
+        ? await extractQuestionsFromPdfWithAI(file)
+        : await parseQuestionnaireOnServer(file, columns);
       clearInterval(progressInterval);
       setProgress(100);
       setQuestions(qs);
       if (qs.length === 0)
         setError("No questions detected. Try a different file?");
+      else if (failed.length > 0)
+        setWarning(
+          `Questions could not be extracted from pages ${failed
+            .map((c) =>
+              c.firstPage === c.lastPage
+                ? c.firstPage
+                : `${c.firstPage}–${c.lastPage}`
+            )
+            .join(", ")}; some questions may be missing.`
+        );
     } catch (err) {
       clearInterval(progressInterval);
       const msg = err instanceof Error ? err.message : String(err);
@@ -217,50 +511,191 @@ export default function AuditClient() {
 
   const handleCheck = async () => {
     if (!questions.length) return;
+    const abort = new AbortController();
+    abortRef.current = abort;
     setChecking(true);
     setError(null);
     setResults([]);
+    resetReview();
     setActiveTab("met");
-    setProgress(0);
-
-    // Simulate progress
-    const progressInterval = setInterval(() => {
-      setProgress((prev) => Math.min(prev + 5, 90));
-    }, 300);
+    setChecked({ done: 0, total: questions.length });
 
     try {
       const res = await fetch("/api/check", {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ questions }),
+        body: JSON.stringify({
+          questions,
+          asOf: asOf || undefined,
+          questionnaire: questionnaire ?? undefined,
+        }),
+        signal: abort.signal,
       });
-      if (!res.ok) throw new Error(`check failed: ${res.status}`);
-      const data = await res.json();
-      clearInterval(progressInterval);
-      setProgress(100);
-      setResults(data.results ?? []);
+      if (!res.ok || !res.body) throw new Error(`check failed: ${res.status}`);
+
+      // NDJSON: one event per line, results in completion order
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+      const handle = (ev: CheckStreamEvent) => {
+        if (ev.type === "start") {
+          setChecked({ done: 0, total: ev.total });
+          setRunId(ev.runId);
+          setHistoryKey((k) => k + 1);
+        } else if (ev.type === "result") {
+          setResults((prev) => [...prev, ev.result]);
+          setChecked({ done: ev.done, total: ev.total });
+        } else if (ev.type === "error") setError(ev.error);
+      };
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines)
+          if (line.trim()) handle(JSON.parse(line) as CheckStreamEvent);
+      }
+      if (buffered.trim()) handle(JSON.parse(buffered) as CheckStreamEvent);
     } catch (err) {
-      clearInterval(progressInterval);
-      const msg = err instanceof Error ? err.message : String(err);
-      setError(msg);
+      // Cancelling keeps whatever results already arrived
+      if (!abort.signal.aborted) {
+        const msg = err instanceof Error ? err.message : String(err);
+        setError(msg);
+      }
     } finally {
+      abortRef.current = null;
       setChecking(false);
-      setTimeout(() => setProgress(0), 1000);
+      setHistoryKey((k) => k + 1);
     }
   };
 
-  // Filter results by status
-  const metResults = results.filter((r) => r.status === "Met");
-  const notMetResults = results.filter((r) => r.status === "Not Met");
+  // { name, questions, results }: the ResultSet shape /compare accepts
+  const handleDownloadJson = () => {
+    const name = questionnaire?.name ?? "audit";
+    const blob = new Blob(
+      [JSON.stringify({ name, questions, results }, null, 2)],
+      { type: "application/json" }
+    );
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `${name.replace(/\.[^.]+$/, "")}-results.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
 
-  const getStatusColor = (status: CheckResult["status"]) => {
-    return status === "Met" ? "success" : "danger";
+  const handleOpenRun = (run: AuditRun) => {
+    setFile(null);
+    setWarning(null);
+    setQuestions(run.questions);
+    setResults(run.results);
+    setRunId(run.id);
+    setQuestionnaire(
+      run.questionnaireName && run.questionnaireHash
+        ? { name: run.questionnaireName, sha256: run.questionnaireHash }
+        : null
+    );
+    setAsOf(run.asOf ?? "");
+    setReviews(run.reviews);
+    setTrail(run.trail);
+    setSignedOff(
+      run.signedOffBy && run.signedOffAt
+        ? { by: run.signedOffBy, at: run.signedOffAt }
+        : null
+    );
+    setError(null);
+    setActiveTab("met");
   };
 
-  const getStatusIcon = (status: CheckResult["status"]) => {
-    return status === "Met" ? CheckCircleIcon : XCircleIcon;
+  const onReviewerChange = (name: string) => {
+    setReviewer(name);
+    localStorage.setItem(REVIEWER_KEY, name);
   };
 
+  // Returns whether the action was recorded
+  const handleReview = async (
+    questionId: string,
+    action: ReviewAction
+  ): Promise<boolean> => {
+    if (!runId) return false;
+    try {
+      const res = await fetch(`/api/runs/${runId}/reviews`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ questionId, reviewer, action }),
+      });
+      const data = await res.json();
+      if (!res.ok)
+        throw new Error(data.error ?? `review failed: ${res.status}`);
+      setReviews((prev) => ({ ...prev, [questionId]: data.review }));
+      setTrail((prev) => [...prev, data.event]);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  };
+
+  const handleSignOff = async () => {
+    if (!runId) return;
+    if (!window.confirm("Sign off this run? It can no longer be changed."))
+      return;
+    try {
+      const res = await fetch(`/api/runs/${runId}/sign-off`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ reviewer }),
+      });
+      const data = await res.json();
+      if (!res.ok)
+        throw new Error(data.error ?? `sign-off failed: ${res.status}`);
+      const run = data.run as AuditRunSummary;
+      setSignedOff({ by: run.signedOffBy!, at: run.signedOffAt! });
+      setHistoryKey((k) => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  // Filter results by status, as reviewed
+  const shownResults = results.map((r) =>
+    reviewedResult(r, reviews[r.questionId])
+  );
+  const automated = new Map(results.map((r) => [r.questionId, r]));
+  const reviewedCount = results.filter((r) =>
+    isReviewed(reviews[r.questionId])
+  ).length;
+  const tabOf = (status: Status) =>
+    STATUS_TABS.find((t) => t.status === status) ?? STATUS_TABS[3];
+  const countOf = (status: Status) =>
+    shownResults.filter((r) => r.status === status).length;
+  const activeStatus = STATUS_TABS.find((t) => t.key === activeTab)!.status;
+  // Results stream in completion order; show them in question order
+  // unless sorted by confidence (unscored results count as lowest)
+  const order = new Map(questions.map((q, i) => [q.id, i]));
+  const byQuestion = (a: CheckResult, b: CheckResult) =>
+    (order.get(a.questionId) ?? 0) - (order.get(b.questionId) ?? 0);
+  const conf = (r: CheckResult) => r.confidence ?? -1;
+  const visibleResults = shownResults
+    .filter(
+      (r) =>
+        r.status === activeStatus &&
+        (band === "all" ||
+          (r.confidence !== undefined && confidenceBand(r.confidence) === band))
+    )
+    .sort((a, b) =>
+      sortBy === "question"
+        ? byQuestion(a, b)
+        : (sortBy === "confidence-asc"
+            ? conf(a) - conf(b)
+            : conf(b) - conf(a)) || byQuestion(a, b)
+    );
+  const checkedPct = checked.total
+    ? Math.round((checked.done / checked.total) * 100)
+    : 0;
+
   return (
     <div className="space-y-6">
       {/* File Upload Section */}
@@ -277,7 +712,7 @@ export default function AuditClient() {
           <div className="space-y-4">
             <Input
               type="file"
-              accept="application/pdf"
+              accept={QUESTIONNAIRE_TYPES}
               onChange={onChooseFile}
               className="w-full"
               isDisabled={extracting || checking}
@@ -301,6 +736,58 @@ export default function AuditClient() {
               </Alert>
             )}
 
+            {file && /\.(xlsx|csv)$/i.test(file.name) && (
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  size="sm"
+                  label="Question column"
+                  placeholder="detected from headers"
+                  description="Header text or column letter"
+                  value={columns.questionColumn}
+                  onValueChange={(questionColumn) =>
+                    setColumns({ ...columns, questionColumn })
+                  }
+                  className="flex-1 min-w-48"
+                />
+                <Input
+                  size="sm"
+                  label="ID column"
+                  placeholder="detected from headers"
+                  value={columns.idColumn}
+                  onValueChange={(idColumn) =>
+                    setColumns({ ...columns, idColumn })
+                  }
+                  className="flex-1 min-w-48"
+                />
+              </div>
+            )}
+
+            {!file && runId && (
+              <Alert color="primary" variant="flat">
+                <ArchiveBoxIcon className="w-4 h-4" />
+                <div>
+                  Reopened saved run
+                  {questionnaire && (
+                    <>
+                      {" "}
+                      for <strong>{questionnaire.name}</strong>
+                    </>
+                  )}
+                </div>
+              </Alert>
+            )}
+
+            <Input
+              type="date"
+              label="Audit date"
+              labelPlacement="outside-left"
+              description="Check against the policy versions in effect on this date. Leave empty to use the latest."
+              value={asOf}
+              onValueChange={setAsOf}
+              isDisabled={checking}
+              className="max-w-md"
+            />
+
             <div className="flex gap-3">
               <Button
                 color="primary"
@@ -325,6 +812,17 @@ export default function AuditClient() {
               >
                 {checking ? "Running Analysis..." : "Run Compliance Check"}
               </Button>
+
+              {checking && (
+                <Button
+                  color="danger"
+                  variant="flat"
+                  onPress={handleCancel}
+                  startContent={<StopIcon className="w-4 h-4" />}
+                >
+                  Cancel
+                </Button>
+              )}
             </div>
 
             {(extracting || checking) && isHydrated && (
@@ -332,13 +830,17 @@ export default function AuditClient() {
                 <div className="flex justify-between text-sm text-gray-600">
                   <span>
                     {extracting
-                      ? "Processing PDF..."
+                      ? "Processing questionnaire..."
                       : "Analyzing compliance..."}
                   </span>
-                  <span>{progress}%</span>
+                  <span>
+                    {extracting
+                      ? `${progress}%`
+                      : `${checked.done} / ${checked.total} questions`}
+                  </span>
                 </div>
                 <Progress
-                  value={progress}
+                  value={extracting ? progress : checkedPct}
                   color="primary"
                   className="w-full"
                   size="sm"
@@ -346,6 +848,12 @@ export default function AuditClient() {
               </div>
             )}
 
+            {warning && (
+              <Alert color="warning" variant="flat">
+                <ExclamationTriangleIcon className="w-4 h-4" />
+                <div>{warning}</div>
+              </Alert>
+            )}
             {error && (
               <Alert color="danger" variant="flat">
                 <ExclamationTriangleIcon className="w-4 h-4" />
@@ -381,22 +889,33 @@ export default function AuditClient() {
             <div className="text-center py-8">
               <DocumentTextIcon className="w-12 h-12 text-gray-300 mx-auto mb-3" />
               <p className="text-gray-500">
-                Upload a PDF and extract questions to get started
+                Upload a questionnaire (PDF, DOCX, XLSX or CSV) and extract
+                questions to get started
               </p>
             </div>
           ) : (
             <div className="space-y-3 pt-4">
               {questions.map((q, index) => (
-                <div key={q.id} className="p-3 bg-gray-50 rounded-lg border">
-                  <div className="flex items-start gap-3">
-                    <span className="text-sm font-medium text-default-600 min-w-0 flex-shrink-0">
-                      {index + 1}.
-                    </span>
-                    <p className="text-sm text-gray-700 leading-relaxed flex-1">
-                      {q.text}
-                    </p>
+                <React.Fragment key={q.id}>
+                  {q.section && q.section !== questions[index - 1]?.section && (
+                    <div className="pt-2 text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                      {q.section}
+                    </div>
+                  )}
+                  <div className="p-3 bg-gray-50 rounded-lg border">
+                    <div className="flex items-start gap-3">
+                      <span className="text-sm font-medium text-default-600 min-w-0 flex-shrink-0">
+                        {q.number ?? index + 1}.
+                      </span>
+                      <div className="flex-1">
+                        <p className="text-sm text-gray-700 leading-relaxed">
+                          {q.text}
+                        </p>
+                        <QuestionSource question={q} />
+                      </div>
+                    </div>
                   </div>
-                </div>
+                </React.Fragment>
               ))}
             </div>
           )}
@@ -406,11 +925,51 @@ export default function AuditClient() {
       {/* Results Section */}
       <Card className="border-0 shadow-sm">
         <CardHeader className="pb-3">
-          <div className="flex items-center gap-2">
-            <CheckCircleIcon className="w-5 h-5 text-green-600" />
-            <h3 className="text-lg font-semibold text-default-600">
-              Compliance Results
-            </h3>
+          <div className="flex items-center justify-between w-full">
+            <div className="flex items-center gap-2">
+              <CheckCircleIcon className="w-5 h-5 text-green-600" />
+              <h3 className="text-lg font-semibold text-default-600">
+                Compliance Results
+              </h3>
+            </div>
+            <div className="flex gap-2">
+              {results.length > 0 && !checking && (
+                <Button
+                  size="sm"
+                  variant="flat"
+                  onPress={handleDownloadJson}
+                  startContent={<ArrowDownTrayIcon className="w-4 h-4" />}
+                >
+                  Results JSON
+                </Button>
+              )}
+              {runId && results.length > 0 && !checking && (
+                <>
+                  {EXPORTS.map((x) => (
+                    <Button
+                      key={x.format}
+                      as="a"
+                      href={`/api/runs/${runId}/export?format=${x.format}`}
+                      target={x.format === "html" ? "_blank" : undefined}
+                      size="sm"
+                      variant="flat"
+                      startContent={<x.icon className="w-4 h-4" />}
+                    >
+                      {x.label}
+                    </Button>
+                  ))}
+                </>
+              )}
+              <Button
+                as={Link}
+                href="/compare"
+                size="sm"
+                variant="flat"
+                startContent={<ArrowsRightLeftIcon className="w-4 h-4" />}
+              >
+                Compare runs
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardBody className="pt-0">
@@ -418,75 +977,155 @@ export default function AuditClient() {
             <div className="text-center py-8">
               <ClockIcon className="w-12 h-12 text-gray-300 mx-auto mb-3" />
               <p className="text-gray-500">
-                Run compliance check to see results
+                {checking
+                  ? "Waiting for the first results..."
+                  : "Run compliance check to see results"}
               </p>
             </div>
           ) : (
             <div className="space-y-4">
+              {runId && !checking && (
+                <div className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-lg border">
+                  {signedOff ? (
+                    <Chip
+                      color="success"
+                      variant="flat"
+                      startContent={<LockClosedIcon className="w-3 h-3" />}
+                    >
+                      Signed off by {signedOff.by} ·{" "}
+                      {new Date(signedOff.at).toLocaleString()}
+                    </Chip>
+                  ) : (
+                    <>
+                      <Input
+                        size="sm"
+                        label="Reviewer"
+                        value={reviewer}
+                        onValueChange={onReviewerChange}
+                        className="max-w-xs"
+                      />
+                      <span className="text-sm text-gray-600">
+                        Reviewed {reviewedCount} / {results.length}
+                      </span>
+                      <Button
+                        size="sm"
+                        color="success"
+                        onPress={handleSignOff}
+                        isDisabled={
+                          !reviewer.trim() ||
+                          results.length < questions.length ||
+                          reviewedCount < results.length
+                        }
+                        startContent={<LockClosedIcon className="w-4 h-4" />}
+                      >
+                        Sign off run
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+
               <Tabs
                 selectedKey={activeTab}
-                onSelectionChange={(key) =>
-                  setActiveTab(key as "met" | "not-met")
-                }
+                onSelectionChange={(key) => setActiveTab(key as StatusTab)}
                 color="primary"
                 variant="underlined"
                 className="w-full"
               >
-                <Tab
-                  key="met"
-                  title={
-                    <div className="flex items-center gap-2">
-                      <CheckCircleIcon className="w-4 h-4" />
-                      Met ({metResults.length})
-                    </div>
-                  }
-                />
-                <Tab
-                  key="not-met"
-                  title={
-                    <div className="flex items-center gap-2">
-                      <XCircleIcon className="w-4 h-4" />
-                      Not Met ({notMetResults.length})
-                    </div>
-                  }
-                />
+                {STATUS_TABS.map((t) => (
+                  <Tab
+                    key={t.key}
+                    title={
+                      <div className="flex items-center gap-2">
+                        <t.icon className="w-4 h-4" />
+                        {t.status} ({countOf(t.status)})
+                      </div>
+                    }
+                  />
+                ))}
               </Tabs>
 
+              <div className="flex flex-wrap gap-3">
+                <Select
+                  label="Sort"
+                  size="sm"
+                  selectedKeys={[sortBy]}
+                  onSelectionChange={(keys) => {
+                    const key = [...keys][0] as ResultSort | undefined;
+                    if (key) setSortBy(key);
+                  }}
+                  className="max-w-xs"
+                >
+                  {RESULT_SORTS.map((s) => (
+                    <SelectItem key={s.key}>{s.label}</SelectItem>
+                  ))}
+                </Select>
+                <Select
+                  label="Confidence"
+                  size="sm"
+                  selectedKeys={[band]}
+                  onSelectionChange={(keys) => {
+                    const key = [...keys][0] as ConfidenceBand | "all";
+                    if (key) setBand(key);
+                  }}
+                  className="max-w-xs"
+                >
+                  {[
+                    <SelectItem key="all">All</SelectItem>,
+                    ...(["low", "medium", "high"] as const).map((b) => (
+                      <SelectItem key={b}>
+                        {CONFIDENCE_CHIPS[b].label}
+                      </SelectItem>
+                    )),
+                  ]}
+                </Select>
+              </div>
+
               <Divider />
 
               <div className="space-y-4">
-                {(activeTab === "met" ? metResults : notMetResults).length ===
-                  0 && (
+                {visibleResults.length === 0 && (
                   <div className="text-center py-8">
                     <InformationCircleIcon className="w-12 h-12 text-gray-300 mx-auto mb-3" />
                     <p className="text-gray-500">
-                      No {activeTab === "met" ? "Met" : "Not Met"} results found
+                      No {activeStatus} results found
+                      {band !== "all" &&
+                        ` with ${CONFIDENCE_CHIPS[band].label.toLowerCase()} confidence`}
                     </p>
                   </div>
                 )}
-                {(activeTab === "met" ? metResults : notMetResults).length >
-                  0 &&
-                  (activeTab === "met" ? metResults : notMetResults).map(
-                    (r) => {
-                      const question = questions.find(
-                        (q) => q.id === r.questionId
-                      );
-                      const StatusIcon = getStatusIcon(r.status);
-
-                      return (
-                        <Card
-                          key={r.questionId}
-                          className="border border-gray-200"
-                        >
-                          <CardBody className="p-4">
-                            <div className="flex items-start justify-between gap-4 mb-3">
-                              <div className="flex-1">
-                                <p className="text-sm font-medium text-gray-900 leading-relaxed">
-                                  {question?.text ?? r.questionId}
+                {visibleResults.length > 0 &&
+                  visibleResults.map((r) => {
+                    const question = questions.find(
+                      (q) => q.id === r.questionId
+                    );
+                    const tab = tabOf(r.status);
+                    const StatusIcon = tab.icon;
+
+                    return (
+                      <Card
+                        key={r.questionId}
+                        className="border border-gray-200"
+                      >
+                        <CardBody className="p-4">
+                          <div className="flex items-start justify-between gap-4 mb-3">
+                            <div className="flex-1">
+                              {question?.section && (
+                                <p className="text-xs text-gray-500 mb-1">
+                                  {question.section}
                                 </p>
-                              </div>
+                              )}
+                              <p className="text-sm font-medium text-gray-900 leading-relaxed">
+                                {question?.number && `${question.number}. `}
+                                {question?.text ?? r.questionId}
+                              </p>
+                              {question && (
+                                <QuestionSource question={question} />
+                              )}
+                            </div>
+                            <div className="flex shrink-0 flex-col items-end gap-1">
                               <Chip
-                                color={getStatusColor(r.status)}
+                                color={tab.color}
                                 variant="flat"
                                 startContent={
                                   <StatusIcon className="w-3 h-3" />
@@ -495,51 +1134,83 @@ export default function AuditClient() {
                               >
                                 {r.status}
                               </Chip>
+                              {r.confidence !== undefined && (
+                                <ConfidenceChip
+                                  confidence={r.confidence}
+                                  calibrated={r.confidenceCalibrated}
+                                  factors={r.confidenceFactors}
+                                />
+                              )}
                             </div>
+                          </div>
+
+                          {r.reason && (
+                            <div className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                              <ExclamationTriangleIcon className="w-4 h-4 text-amber-500" />
+                              <span>
+                                {REASON_LABELS[r.reason]} ({r.reason})
+                              </span>
+                            </div>
+                          )}
+
+                          {r.elements && r.elements.length > 0 && (
+                            <ElementBreakdown elements={r.elements} />
+                          )}
 
-                            {r.evidence && (
-                              <div className="mt-4 p-3 bg-gray-50 rounded-lg border">
-                                <div className="flex items-start gap-2 mb-2">
-                                  <DocumentTextIcon className="w-4 h-4 text-gray-500 mt-0.5" />
-                                  <span className="text-xs font-medium text-gray-600 uppercase tracking-wide">
-                                    Evidence
+                          {r.citations && r.citations.length > 0 && (
+                            <EvidenceList
+                              citations={r.citations}
+                              onOpen={setViewing}
+                            />
+                          )}
+
+                          {r.rationale && (
+                            <div className="mt-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
+                              <div className="flex items-start gap-2">
+                                <InformationCircleIcon className="w-4 h-4 text-blue-600 mt-0.5" />
+                                <div>
+                                  <span className="text-xs font-medium text-blue-800 uppercase tracking-wide">
+                                    Analysis
                                   </span>
-                                </div>
-                                <blockquote className="text-sm text-gray-800 italic leading-relaxed border-l-2 border-blue-200 pl-3">
-                                  &ldquo;{r.evidence.snippet}&rdquo;
-                                </blockquote>
-                                <div className="mt-2 text-xs text-gray-500 font-medium">
-                                  📄 {r.evidence.fileName}, page{" "}
-                                  {r.evidence.page}
+                                  <p className="text-sm text-blue-700 mt-1">
+                                    {r.rationale}
+                                  </p>
                                 </div>
                               </div>
-                            )}
-
-                            {r.rationale && (
-                              <div className="mt-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
-                                <div className="flex items-start gap-2">
-                                  <InformationCircleIcon className="w-4 h-4 text-blue-600 mt-0.5" />
-                                  <div>
-                                    <span className="text-xs font-medium text-blue-800 uppercase tracking-wide">
-                                      Analysis
-                                    </span>
-                                    <p className="text-sm text-blue-700 mt-1">
-                                      {r.rationale}
-                                    </p>
-                                  </div>
-                                </div>
-                              </div>
-                            )}
-                          </CardBody>
-                        </Card>
-                      );
-                    }
-                  )}
+                            </div>
+                          )}
+
+                          {runId && !checking && (
+                            <ReviewPanel
+                              result={automated.get(r.questionId) ?? r}
+                              review={reviews[r.questionId]}
+                              trail={trail.filter(
+                                (ev) => ev.questionId === r.questionId
+                              )}
+                              reviewer={reviewer}
+                              locked={signedOff !== null}
+                              onAction={(action) =>
+                                handleReview(r.questionId, action)
+                              }
+                            />
+                          )}
+                        </CardBody>
+                      </Card>
+                    );
+                  })}
               </div>
             </div>
           )}
         </CardBody>
       </Card>
+
+      <RunHistory
+        refreshKey={historyKey}
+        activeRunId={runId}
+        onOpen={handleOpenRun}
+      />
+
+      <PolicyViewer evidence={viewing} onClose={() => setViewing(null)} />
     </div>
   );
 }
@@ -0,0 +1,365 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Checkbox,
+  Chip,
+  Divider,
+  Input,
+  Select,
+  SelectItem,
+  Tab,
+  Tabs,
+} from "@heroui/react";
+import {
+  ArrowRightIcon,
+  ArrowsRightLeftIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import type {
+  AuditRunSummary,
+  QuestionChange,
+  QuestionDiff,
+  ResultSet,
+  RunComparison,
+  Status,
+} from "../types";
+
+const STATUS_COLORS: Record<
+  Status,
+  "success" | "warning" | "danger" | "default"
+> = {
+  Met: "success",
+  "Partially Met": "warning",
+  "Not Met": "danger",
+  Undetermined: "default",
+};
+
+const CHANGE_TABS: Array<{ key: QuestionChange; label: string }> = [
+  { key: "flipped", label: "Status flipped" },
+  { key: "evidence", label: "Evidence changed" },
+  { key: "added", label: "New questions" },
+  { key: "removed", label: "Dropped questions" },
+  { key: "unchanged", label: "Unchanged" },
+];
+
+// One side of the comparison: a saved run or an uploaded results JSON file
+type Side = { runId: string } | ResultSet | null;
+
+function SidePicker({
+  label,
+  runs,
+  onChange,
+}: {
+  label: string;
+  runs: AuditRunSummary[];
+  onChange: (side: Side) => void;
+}) {
+  const [runId, setRunId] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    setFileError(null);
+    setRunId("");
+    if (!f) return onChange(null);
+    try {
+      const data = JSON.parse(await f.text()) as Partial<ResultSet>;
+      if (!Array.isArray(data.questions) || !Array.isArray(data.results))
+        throw new Error("expected { questions, results }");
+      onChange({
+        name: data.name ?? f.name,
+        questions: data.questions,
+        results: data.results,
+      });
+    } catch (err) {
+      setFileError(
+        `${f.name}: ${err instanceof Error ? err.message : String(err)}`
+      );
+      onChange(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 space-y-3">
+      <div className="text-sm font-semibold text-default-600">{label}</div>
+      <Select
+        label="Saved run"
+        size="sm"
+        selectedKeys={runId ? [runId] : []}
+        onSelectionChange={(keys) => {
+          const id = [...keys][0] as string | undefined;
+          setRunId(id ?? "");
+          onChange(id ? { runId: id } : null);
+        }}
+      >
+        {runs.map((r) => (
+          <SelectItem key={r.id} textValue={r.name}>
+            {r.name} · {new Date(r.createdAt).toLocaleDateString()}
+          </SelectItem>
+        ))}
+      </Select>
+      <Input
+        type="file"
+        accept="application/json"
+        size="sm"
+        description="...or a results JSON file exported from a run"
+        onChange={onFile}
+      />
+      {fileError && <p className="text-xs text-danger">{fileError}</p>}
+    </div>
+  );
+}
+
+function StatusChip({ status }: { status: Status }) {
+  return (
+    <Chip color={STATUS_COLORS[status]} variant="flat" size="sm">
+      {status}
+    </Chip>
+  );
+}
+
+function DiffCard({ d }: { d: QuestionDiff }) {
+  return (
+    <Card className="border border-gray-200">
+      <CardBody className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <p className="text-sm font-medium text-gray-900 leading-relaxed flex-1">
+            {d.text}
+          </p>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {d.before ? (
+              <StatusChip status={d.before.status} />
+            ) : (
+              <span className="text-xs text-gray-400">—</span>
+            )}
+            <ArrowRightIcon className="w-3 h-3 text-gray-400" />
+            {d.after ? (
+              <StatusChip status={d.after.status} />
+            ) : (
+              <span className="text-xs text-gray-400">—</span>
+            )}
+          </div>
+        </div>
+
+        {d.moved.length > 0 && (
+          <div className="p-3 bg-gray-50 rounded-lg border space-y-2">
+            <div className="text-xs font-medium text-gray-600 uppercase tracking-wide">
+              Evidence moved
+            </div>
+            {d.moved.map((m, i) => (
+              <div key={i} className="text-xs text-gray-600">
+                <div className="flex flex-wrap items-center gap-1 font-medium">
+                  <span>
+                    {m.from.fileName} p.{m.from.page}
+                  </span>
+                  <ArrowRightIcon className="w-3 h-3" />
+                  <span>
+                    {m.to.fileName} p.{m.to.page}
+                  </span>
+                </div>
+                <blockquote className="mt-1 italic border-l-2 border-blue-200 pl-3 text-gray-800">
+                  &ldquo;{m.snippet}&rdquo;
+                </blockquote>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {(d.newDocuments.length > 0 || d.droppedDocuments.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {d.newDocuments.map((f) => (
+              <Chip key={f} size="sm" variant="flat" color="primary">
+                + {f}
+              </Chip>
+            ))}
+            {d.droppedDocuments.map((f) => (
+              <Chip key={f} size="sm" variant="flat">
+                − {f}
+              </Chip>
+            ))}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+export default function CompareClient() {
+  const [runs, setRuns] = useState<AuditRunSummary[]>([]);
+  const [before, setBefore] = useState<Side>(null);
+  const [after, setAfter] = useState<Side>(null);
+  const [automated, setAutomated] = useState(false);
+  const [comparing, setComparing] = useState(false);
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<QuestionChange>("flipped");
+
+  useEffect(() => {
+    fetch("/api/runs")
+      .then((res) => (res.ok ? res.json() : { runs: [] }))
+      .then((data: { runs?: AuditRunSummary[] }) => setRuns(data.runs ?? []))
+      .catch(() => setRuns([]));
+  }, []);
+
+  const handleCompare = async () => {
+    if (!before || !after) return;
+    setComparing(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/compare", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ before, after, automated }),
+      });
+      const data = await res.json();
+      if (!res.ok)
+        throw new Error(data.error ?? `compare failed: ${res.status}`);
+      setComparison(data.comparison);
+      setActiveTab("flipped");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const c = comparison;
+  const visible = c?.questions.filter((d) => d.change === activeTab) ?? [];
+  const countOf = (k: QuestionChange) =>
+    c?.questions.filter((d) => d.change === k).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <ArrowsRightLeftIcon className="w-5 h-5 text-blue-600" />
+            <h3 className="text-lg font-semibold text-default-600">
+              Compare Runs
+            </h3>
+          </div>
+        </CardHeader>
+        <CardBody className="pt-0 space-y-4">
+          <div className="flex flex-col md:flex-row gap-6">
+            <SidePicker
+              label="Before (earlier run)"
+              runs={runs}
+              onChange={setBefore}
+            />
+            <SidePicker
+              label="After (later run)"
+              runs={runs}
+              onChange={setAfter}
+            />
+          </div>
+          <Checkbox
+            size="sm"
+            isSelected={automated}
+            onValueChange={setAutomated}
+          >
+            Compare saved runs on their automated verdicts, ignoring reviews
+          </Checkbox>
+          <Button
+            color="primary"
+            onPress={handleCompare}
+            isDisabled={!before || !after || comparing}
+            isLoading={comparing}
+            startContent={
+              !comparing && <ArrowsRightLeftIcon className="w-4 h-4" />
+            }
+          >
+            Compare
+          </Button>
+          {error && (
+            <Alert color="danger" variant="flat">
+              <ExclamationTriangleIcon className="w-4 h-4" />
+              <div>{error}</div>
+            </Alert>
+          )}
+        </CardBody>
+      </Card>
+
+      {c && (
+        <Card className="border-0 shadow-sm">
+          <CardHeader className="pb-3">
+            <div className="flex flex-col gap-1">
+              <h3 className="text-lg font-semibold text-default-600">
+                {c.before.name ?? "Before"} → {c.after.name ?? "After"}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {c.summary.matched} questions matched by text ·{" "}
+                {c.summary.flipped} flipped · {c.summary.evidenceChanged} with
+                changed evidence · {c.summary.added} new · {c.summary.removed}{" "}
+                dropped
+              </p>
+            </div>
+          </CardHeader>
+          <CardBody className="pt-0 space-y-4">
+            {Object.keys(c.summary.transitions).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(c.summary.transitions).map(([t, n]) => (
+                  <Chip key={t} size="sm" variant="flat">
+                    {t}: {n}
+                  </Chip>
+                ))}
+              </div>
+            )}
+
+            {(c.newDocuments.length > 0 || c.droppedDocuments.length > 0) && (
+              <div className="p-3 bg-gray-50 rounded-lg border">
+                <div className="flex items-start gap-2 mb-2">
+                  <DocumentTextIcon className="w-4 h-4 text-gray-500 mt-0.5" />
+                  <span className="text-xs font-medium text-gray-600 uppercase tracking-wide">
+                    Cited documents
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {c.newDocuments.map((f) => (
+                    <Chip key={f} size="sm" variant="flat" color="primary">
+                      New: {f}
+                    </Chip>
+                  ))}
+                  {c.droppedDocuments.map((f) => (
+                    <Chip key={f} size="sm" variant="flat">
+                      No longer cited: {f}
+                    </Chip>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Tabs
+              selectedKey={activeTab}
+              onSelectionChange={(key) => setActiveTab(key as QuestionChange)}
+              color="primary"
+              variant="underlined"
+              className="w-full"
+            >
+              {CHANGE_TABS.map((t) => (
+                <Tab key={t.key} title={`${t.label} (${countOf(t.key)})`} />
+              ))}
+            </Tabs>
+            <Divider />
+
+            <div className="space-y-4">
+              {visible.length === 0 ? (
+                <p className="text-gray-500 text-center py-6">
+                  Nothing in this category
+                </p>
+              ) : (
+                visible.map((d, i) => <DiffCard key={i} d={d} />)
+              )}
+            </div>
+          </CardBody>
+        </Card>
+      )}
+    </div>
+  );
+}
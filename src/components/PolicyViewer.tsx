@@ -0,0 +1,352 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Button,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalHeader,
+  Spinner,
+} from "@heroui/react";
+import {
+  ArrowTopRightOnSquareIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+} from "@heroicons/react/24/outline";
+import type {
+  PageViewport,
+  PDFDocumentProxy,
+} from "pdfjs-dist/legacy/build/pdf.mjs";
+import { locateSnippet } from "../lib/citations";
+import { loadPdfjs } from "../lib/pdfjs";
+import type { Evidence } from "../types";
+
+// Page width in CSS pixels; the canvas is scaled by devicePixelRatio
+const PAGE_WIDTH = 720;
+
+type TextRun = { str: string; transform: number[]; width: number };
+type Rect = { left: number; top: number; width: number; height: number };
+
+// Page text built exactly as build-policies-db does (items joined by a space,
+// whitespace collapsed, trimmed), so citation offsets into the stored page
+// text land on the same characters here. `origin` maps each char back to
+// its text item and offset; separators have none.
+function pageText(items: Array<TextRun | null>): {
+  text: string;
+  origin: Array<{ item: number; offset: number } | null>;
+} {
+  const raw: Array<{ ch: string; item: number; offset: number } | null> = [];
+  items.forEach((it, i) => {
+    if (i > 0) raw.push(null);
+    const str = it?.str ?? "";
+    for (let k = 0; k < str.length; k++)
+      raw.push({ ch: str[k], item: i, offset: k });
+  });
+
+  let text = "";
+  const origin: Array<{ item: number; offset: number } | null> = [];
+  for (const r of raw) {
+    const ch = r?.ch ?? " ";
+    if (/\s/.test(ch)) {
+      if (text === "" || text.endsWith(" ")) continue;
+      text += " ";
+      origin.push(null);
+    } else {
+      text += ch;
+      origin.push({ item: r!.item, offset: r!.offset });
+    }
+  }
+  if (text.endsWith(" ")) {
+    text = text.slice(0, -1);
+    origin.pop();
+  }
+  return { text, origin };
+}
+
+// Viewport rectangles covering chars [start, end) of the page text. Partial
+// items are cut in proportion to their character count.
+function highlightRects(
+  items: Array<TextRun | null>,
+  origin: ReturnType<typeof pageText>["origin"],
+  start: number,
+  end: number,
+  viewport: PageViewport
+): Rect[] {
+  const spans = new Map<number, { from: number; to: number }>();
+  for (let i = start; i < end && i < origin.length; i++) {
+    const o = origin[i];
+    if (!o) continue;
+    const s = spans.get(o.item);
+    if (!s) spans.set(o.item, { from: o.offset, to: o.offset + 1 });
+    else s.to = Math.max(s.to, o.offset + 1);
+  }
+
+  const rects: Rect[] = [];
+  for (const [i, { from, to }] of spans) {
+    const it = items[i]!;
+    const [, , c, d, x, y] = it.transform;
+    const height = Math.hypot(c, d) || 10;
+    const perChar = it.width / Math.max(it.str.length, 1);
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+      x + perChar * from,
+      y - height * 0.2, // descenders
+      x + perChar * to,
+      y + height * 0.9,
+    ]);
+    rects.push({
+      left: Math.min(x1, x2),
+      top: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+    });
+  }
+  return rects;
+}
+
+// Side-by-side view of a citation: the cited snippet next to the source
+// policy page, with the snippet highlighted on the page
+export default function PolicyViewer({
+  evidence,
+  onClose,
+}: {
+  evidence: Evidence | null;
+  onClose: () => void;
+}) {
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(1);
+  const [rendering, setRendering] = useState(false);
+  const [rects, setRects] = useState<Rect[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false); // snippet not on the page
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const markRef = useRef<HTMLDivElement>(null);
+
+  const fileName = evidence?.fileName;
+
+  // Load the document whenever a different file is opened
+  useEffect(() => {
+    if (!fileName) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setDoc(null);
+    setError(null);
+    (async () => {
+      try {
+        const pdfjs = await loadPdfjs();
+        loaded = await pdfjs.getDocument({
+          url: `/api/policies/${encodeURIComponent(fileName)}`,
+        }).promise;
+        if (cancelled) return;
+        setDoc(loaded);
+      } catch (err) {
+        if (!cancelled)
+          setError(
+            `Could not open ${fileName}: ${err instanceof Error ? err.message : String(err)}`
+          );
+      }
+    })();
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [fileName]);
+
+  useEffect(() => {
+    if (evidence) setPage(evidence.page);
+  }, [evidence]);
+
+  // Render the current page and, on the cited page, the snippet highlight
+  useEffect(() => {
+    if (!doc || !evidence || !canvasRef.current) return;
+    if (page < 1 || page > doc.numPages) return;
+    let cancelled = false;
+    let task: { cancel: () => void } | null = null;
+    setRendering(true);
+    setRects([]);
+    setNotFound(false);
+    (async () => {
+      try {
+        const p = await doc.getPage(page);
+        const base = p.getViewport({ scale: 1 });
+        const viewport = p.getViewport({ scale: PAGE_WIDTH / base.width });
+        const dpr = window.devicePixelRatio || 1;
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        canvas.width = Math.floor(viewport.width * dpr);
+        canvas.height = Math.floor(viewport.height * dpr);
+        setSize({ width: viewport.width, height: viewport.height });
+
+        const render = p.render({
+          canvasContext: canvas.getContext("2d")!,
+          viewport,
+          transform: dpr !== 1 ? [dpr, 0, 0, dpr, 0, 0] : undefined,
+        });
+        task = render;
+        await render.promise;
+        if (cancelled || page !== evidence.page) return;
+
+        const content = await p.getTextContent();
+        const items = content.items.map((it) =>
+          "str" in it ? (it as TextRun) : null
+        );
+        const { text, origin } = pageText(items);
+        // Offsets from citation verification index this same text
+        const v = evidence.verification;
+        const range =
+          v?.start !== undefined && v.end !== undefined && v.end <= text.length
+            ? { start: v.start, end: v.end }
+            : locateSnippet(evidence.snippet, text);
+        if (cancelled) return;
+        if (!range) setNotFound(true);
+        else
+          setRects(
+            highlightRects(items, origin, range.start, range.end, viewport)
+          );
+      } catch (err) {
+        if (!cancelled && !(err instanceof Error && /cancel/i.test(err.name)))
+          setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setRendering(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [doc, page, evidence]);
+
+  useEffect(() => {
+    if (rects.length)
+      markRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [rects]);
+
+  const numPages = doc?.numPages ?? 0;
+
+  return (
+    <Modal
+      isOpen={!!evidence}
+      onClose={onClose}
+      size="full"
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        {evidence && (
+          <>
+            <ModalHeader className="flex flex-wrap items-center gap-2">
+              <span className="truncate">{evidence.fileName}</span>
+              {evidence.policyId && (
+                <Chip variant="flat" size="sm">
+                  {evidence.policyId}
+                  {evidence.effectiveDate &&
+                    ` · effective ${evidence.effectiveDate}`}
+                </Chip>
+              )}
+            </ModalHeader>
+            <ModalBody className="pb-6">
+              <div className="flex flex-col lg:flex-row gap-6 min-h-0">
+                <div className="lg:w-80 flex-shrink-0 space-y-3">
+                  <div className="text-xs font-medium text-gray-600 uppercase tracking-wide">
+                    Cited on page {evidence.page}
+                  </div>
+                  <blockquote className="text-sm text-gray-800 italic leading-relaxed border-l-2 border-yellow-300 pl-3">
+                    &ldquo;{evidence.snippet}&rdquo;
+                  </blockquote>
+                  {evidence.covers && (
+                    <p className="text-xs text-gray-500">
+                      Covers: {evidence.covers}
+                    </p>
+                  )}
+                  {notFound && (
+                    <p className="text-xs text-warning-600">
+                      The snippet could not be located on this page.
+                    </p>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    as="a"
+                    href={`/api/policies/${encodeURIComponent(evidence.fileName)}#page=${page}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    startContent={
+                      <ArrowTopRightOnSquareIcon className="w-4 h-4" />
+                    }
+                  >
+                    Open PDF
+                  </Button>
+                </div>
+
+                <div className="flex-1 min-w-0 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      isIconOnly
+                      aria-label="Previous page"
+                      isDisabled={page <= 1}
+                      onPress={() => setPage(page - 1)}
+                    >
+                      <ChevronLeftIcon className="w-4 h-4" />
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                      Page {page}
+                      {numPages > 0 && ` of ${numPages}`}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      isIconOnly
+                      aria-label="Next page"
+                      isDisabled={!numPages || page >= numPages}
+                      onPress={() => setPage(page + 1)}
+                    >
+                      <ChevronRightIcon className="w-4 h-4" />
+                    </Button>
+                    {page !== evidence.page && (
+                      <Button
+                        size="sm"
+                        variant="light"
+                        onPress={() => setPage(evidence.page)}
+                      >
+                        Back to cited page
+                      </Button>
+                    )}
+                    {(rendering || (!doc && !error)) && <Spinner size="sm" />}
+                  </div>
+
+                  {error ? (
+                    <p className="text-sm text-danger">{error}</p>
+                  ) : (
+                    <div
+                      className="relative border shadow-sm bg-white"
+                      style={{
+                        width: size.width || PAGE_WIDTH,
+                        height: size.height || undefined,
+                      }}
+                    >
+                      <canvas
+                        ref={canvasRef}
+                        style={{ width: size.width, height: size.height }}
+                      />
+                      {rects.map((r, i) => (
+                        <div
+                          key={i}
+                          ref={i === 0 ? markRef : undefined}
+                          className="absolute bg-yellow-300/40 mix-blend-multiply pointer-events-none rounded-sm"
+                          style={r}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </ModalBody>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
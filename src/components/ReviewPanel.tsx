@@ -0,0 +1,342 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Button,
+  Chip,
+  Input,
+  Select,
+  SelectItem,
+  Textarea,
+} from "@heroui/react";
+import {
+  ChatBubbleLeftIcon,
+  CheckIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import type {
+  CheckResult,
+  Evidence,
+  ResultReview,
+  ReviewAction,
+  ReviewEvent,
+  Status,
+} from "../types";
+
+const STATUSES: Status[] = ["Met", "Partially Met", "Not Met", "Undetermined"];
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+function describe(action: ReviewAction): string {
+  switch (action.type) {
+    case "accept":
+      return "accepted the automated verdict";
+    case "override":
+      return `overrode the status to ${action.status}: ${action.justification}`;
+    case "citations":
+      return `set the evidence to ${action.citations.length} citation(s)`;
+    case "comment":
+      return `commented: ${action.text}`;
+    case "sign-off":
+      return "signed off the run";
+  }
+}
+
+// Reviewer controls for one result: accept, override with justification,
+// edit evidence, comment, and the question's audit trail
+export default function ReviewPanel({
+  result,
+  review,
+  trail,
+  reviewer,
+  locked,
+  onAction,
+}: {
+  result: CheckResult; // automated result
+  review?: ResultReview;
+  trail: ReviewEvent[];
+  reviewer: string;
+  locked: boolean;
+  onAction: (action: ReviewAction) => Promise<boolean>;
+}) {
+  const [mode, setMode] = useState<"override" | "citations" | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [overrideStatus, setOverrideStatus] = useState<Status>(result.status);
+  const [justification, setJustification] = useState("");
+  const [citations, setCitations] = useState<Evidence[]>([]);
+  const [draft, setDraft] = useState({ fileName: "", page: "", snippet: "" });
+  const [comment, setComment] = useState("");
+  const [showTrail, setShowTrail] = useState(false);
+
+  const disabled = locked || !reviewer.trim() || busy;
+
+  const act = async (action: ReviewAction) => {
+    setBusy(true);
+    const ok = await onAction(action);
+    setBusy(false);
+    if (ok) {
+      setMode(null);
+      setJustification("");
+      setComment("");
+    }
+  };
+
+  const startCitations = () => {
+    setCitations(review?.citations ?? result.citations ?? []);
+    setDraft({ fileName: "", page: "", snippet: "" });
+    setMode("citations");
+  };
+
+  const addDraft = () => {
+    const page = Number(draft.page);
+    if (!draft.fileName.trim() || !draft.snippet.trim() || !(page >= 1)) return;
+    setCitations([
+      ...citations,
+      { fileName: draft.fileName.trim(), page, snippet: draft.snippet.trim() },
+    ]);
+    setDraft({ fileName: "", page: "", snippet: "" });
+  };
+
+  const state = review?.state ?? "pending";
+
+  return (
+    <div className="mt-4 p-3 rounded-lg border border-dashed border-gray-300 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          <Chip
+            size="sm"
+            variant="flat"
+            color={
+              state === "accepted"
+                ? "success"
+                : state === "overridden"
+                  ? "secondary"
+                  : "default"
+            }
+          >
+            {state === "pending" ? "Pending review" : state}
+          </Chip>
+          {review?.reviewedBy && (
+            <span>
+              by {review.reviewedBy} · {formatDate(review.reviewedAt!)}
+            </span>
+          )}
+          {state === "overridden" && (
+            <span>· automated verdict: {result.status}</span>
+          )}
+        </div>
+        {!locked && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              color="success"
+              variant="flat"
+              isDisabled={disabled}
+              onPress={() => act({ type: "accept" })}
+              startContent={<CheckIcon className="w-4 h-4" />}
+            >
+              Accept
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              isDisabled={disabled}
+              onPress={() => setMode(mode === "override" ? null : "override")}
+              startContent={<PencilSquareIcon className="w-4 h-4" />}
+            >
+              Override
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              isDisabled={disabled}
+              onPress={() =>
+                mode === "citations" ? setMode(null) : startCitations()
+              }
+            >
+              Edit evidence
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {review?.justification && (
+        <p className="text-sm text-gray-700">
+          <span className="font-medium">Justification:</span>{" "}
+          {review.justification}
+        </p>
+      )}
+
+      {mode === "override" && (
+        <div className="space-y-2">
+          <Select
+            label="Reviewed status"
+            size="sm"
+            selectedKeys={[overrideStatus]}
+            onSelectionChange={(keys) => {
+              const s = [...keys][0] as Status | undefined;
+              if (s) setOverrideStatus(s);
+            }}
+            className="max-w-xs"
+          >
+            {STATUSES.map((s) => (
+              <SelectItem key={s}>{s}</SelectItem>
+            ))}
+          </Select>
+          <Textarea
+            label="Justification (required)"
+            size="sm"
+            value={justification}
+            onValueChange={setJustification}
+          />
+          <Button
+            size="sm"
+            color="primary"
+            isDisabled={disabled || !justification.trim()}
+            isLoading={busy}
+            onPress={() =>
+              act({ type: "override", status: overrideStatus, justification })
+            }
+          >
+            Save override
+          </Button>
+        </div>
+      )}
+
+      {mode === "citations" && (
+        <div className="space-y-2">
+          {citations.length === 0 && (
+            <p className="text-xs text-gray-500">No citations</p>
+          )}
+          {citations.map((c, i) => (
+            <div key={i} className="flex items-start gap-2 text-xs">
+              <div className="flex-1">
+                <span className="font-medium">
+                  {c.fileName} p.{c.page}
+                </span>
+                <span className="italic text-gray-700">
+                  {" "}
+                  &ldquo;{c.snippet}&rdquo;
+                </span>
+              </div>
+              <Button
+                size="sm"
+                variant="light"
+                color="danger"
+                isIconOnly
+                aria-label="Remove citation"
+                onPress={() =>
+                  setCitations(citations.filter((_, j) => j !== i))
+                }
+              >
+                <TrashIcon className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <Input
+              size="sm"
+              label="Policy file"
+              value={draft.fileName}
+              onValueChange={(fileName) => setDraft({ ...draft, fileName })}
+              className="flex-1 min-w-48"
+            />
+            <Input
+              size="sm"
+              type="number"
+              label="Page"
+              value={draft.page}
+              onValueChange={(page) => setDraft({ ...draft, page })}
+              className="w-24"
+            />
+          </div>
+          <Textarea
+            size="sm"
+            label="Snippet"
+            value={draft.snippet}
+            onValueChange={(snippet) => setDraft({ ...draft, snippet })}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="flat"
+              onPress={addDraft}
+              startContent={<PlusIcon className="w-4 h-4" />}
+            >
+              Add citation
+            </Button>
+            <Button
+              size="sm"
+              color="primary"
+              isDisabled={disabled}
+              isLoading={busy}
+              onPress={() => act({ type: "citations", citations })}
+            >
+              Save evidence
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {review && review.comments.length > 0 && (
+        <ul className="space-y-1">
+          {review.comments.map((c, i) => (
+            <li key={i} className="text-sm text-gray-700">
+              <span className="font-medium">{c.reviewer}</span>{" "}
+              <span className="text-xs text-gray-500">{formatDate(c.at)}</span>
+              <p>{c.text}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!locked && (
+        <div className="flex gap-2">
+          <Input
+            size="sm"
+            placeholder="Add a comment"
+            value={comment}
+            onValueChange={setComment}
+            startContent={
+              <ChatBubbleLeftIcon className="w-4 h-4 text-gray-400" />
+            }
+          />
+          <Button
+            size="sm"
+            variant="flat"
+            isDisabled={disabled || !comment.trim()}
+            onPress={() => act({ type: "comment", text: comment })}
+          >
+            Comment
+          </Button>
+        </div>
+      )}
+
+      {trail.length > 0 && (
+        <div>
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={() => setShowTrail(!showTrail)}
+          >
+            {showTrail ? "Hide" : "Show"} history ({trail.length})
+          </button>
+          {showTrail && (
+            <ol className="mt-1 space-y-1 text-xs text-gray-600">
+              {trail.map((ev) => (
+                <li key={ev.id}>
+                  {formatDate(ev.at)} · <strong>{ev.reviewer}</strong>{" "}
+                  {describe(ev.action)}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Button, Card, CardBody, CardHeader, Chip, Input } from "@heroui/react";
+import {
+  ArchiveBoxIcon,
+  ArrowPathIcon,
+  CheckIcon,
+  FolderOpenIcon,
+  LockClosedIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import type { AuditRun, AuditRunSummary, RunStatus } from "../types";
+
+const STATUS_COLORS: Record<
+  RunStatus,
+  "primary" | "success" | "warning" | "danger"
+> = {
+  running: "primary",
+  complete: "success",
+  cancelled: "warning",
+  failed: "danger",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+// Saved audit runs: reopen, rename or delete. `refreshKey` changes whenever
+// the parent starts or finishes a run.
+export default function RunHistory({
+  refreshKey,
+  activeRunId,
+  onOpen,
+}: {
+  refreshKey: number;
+  activeRunId: string | null;
+  onOpen: (run: AuditRun) => void;
+}) {
+  const [runs, setRuns] = useState<AuditRunSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(
+    null
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/runs");
+      if (!res.ok) throw new Error(`loading runs failed: ${res.status}`);
+      const data = (await res.json()) as { runs?: AuditRunSummary[] };
+      setRuns(data.runs ?? []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const open = async (id: string) => {
+    try {
+      const res = await fetch(`/api/runs/${id}`);
+      if (!res.ok) throw new Error(`opening run failed: ${res.status}`);
+      const data = (await res.json()) as { run: AuditRun };
+      onOpen(data.run);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const rename = async () => {
+    if (!editing?.name.trim()) return;
+    try {
+      const res = await fetch(`/api/runs/${editing.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ name: editing.name }),
+      });
+      if (!res.ok) throw new Error(`rename failed: ${res.status}`);
+      setEditing(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const remove = async (run: AuditRunSummary) => {
+    if (!window.confirm(`Delete "${run.name}"?`)) return;
+    try {
+      const res = await fetch(`/api/runs/${run.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error ?? `delete failed: ${res.status}`);
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between w-full">
+          <div className="flex items-center gap-2">
+            <ArchiveBoxIcon className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-default-600">
+              Run History
+            </h3>
+          </div>
+          <Button
+            size="sm"
+            variant="light"
+            isIconOnly
+            aria-label="Refresh"
+            onPress={load}
+            isLoading={loading}
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardBody className="pt-0">
+        {error && <p className="text-sm text-danger mb-2">{error}</p>}
+        {!runs.length ? (
+          <p className="text-gray-500 text-center py-4">No saved runs yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {runs.map((r) => (
+              <li
+                key={r.id}
+                className={`p-3 rounded-lg border ${
+                  r.id === activeRunId
+                    ? "bg-blue-50 border-blue-200"
+                    : "bg-gray-50"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    {editing?.id === r.id ? (
+                      <Input
+                        size="sm"
+                        value={editing.name}
+                        onValueChange={(name) =>
+                          setEditing({ ...editing, name })
+                        }
+                        onKeyDown={(e) => e.key === "Enter" && rename()}
+                        autoFocus
+                      />
+                    ) : (
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {r.name}
+                      </p>
+                    )}
+                    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <span>{formatDate(r.createdAt)}</span>
+                      <span>
+                        · {r.resultCount}/{r.questionCount} questions
+                      </span>
+                      {r.questionnaireName &&
+                        r.questionnaireName !== r.name && (
+                          <span>· {r.questionnaireName}</span>
+                        )}
+                      {r.asOf && <span>· as of {r.asOf}</span>}
+                      <span>· {r.model}</span>
+                      <Chip
+                        size="sm"
+                        variant="flat"
+                        color={STATUS_COLORS[r.status]}
+                      >
+                        {r.status}
+                      </Chip>
+                      {r.signedOffAt && (
+                        <Chip
+                          size="sm"
+                          variant="flat"
+                          color="success"
+                          startContent={<LockClosedIcon className="w-3 h-3" />}
+                        >
+                          signed off by {r.signedOffBy}
+                        </Chip>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    {editing?.id === r.id ? (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="light"
+                          isIconOnly
+                          aria-label="Save name"
+                          onPress={rename}
+                        >
+                          <CheckIcon className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="light"
+                          isIconOnly
+                          aria-label="Cancel rename"
+                          onPress={() => setEditing(null)}
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="light"
+                          isIconOnly
+                          aria-label="Open"
+                          onPress={() => open(r.id)}
+                        >
+                          <FolderOpenIcon className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="light"
+                          isIconOnly
+                          aria-label="Rename"
+                          isDisabled={!!r.signedOffAt}
+                          onPress={() => setEditing({ id: r.id, name: r.name })}
+                        >
+                          <PencilSquareIcon className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="light"
+                          color="danger"
+                          isIconOnly
+                          aria-label="Delete"
+                          isDisabled={!!r.signedOffAt || r.reviewedCount > 0}
+                          onPress={() => remove(r)}
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,942 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { verifyCitation } from "./citations";
+import {
+  calibrate,
+  combineConfidence,
+  confidenceFactors,
+  requirementConfidence,
+  type Calibration,
+} from "./confidence";
+import { getDb, type PageFetcher } from "./db";
+import { getEmbIndex, searchEmbIndex, type EmbIndex } from "./embedding";
+import { fuseRankings } from "./fusion";
+import { getKeywordIndex, searchKeyword, type KeywordIndex } from "./keyword";
+import {
+  filesInEffect,
+  getPolicyMetaIndex,
+  parsePolicyFileName,
+  type PolicyMeta,
+} from "./policy-meta";
+import { getProvider, type Provider } from "./providers";
+import { CircuitOpenError, RetriesExhaustedError } from "./model-client";
+import { getLastIngestAt } from "./sqlite";
+import { generateStructured, SchemaValidationError } from "./structured";
+import type {
+  CheckResult,
+  CorpusVersion,
+  ElementResult,
+  Evidence,
+  Question,
+  RetrievalHit,
+  Status,
+  UndeterminedReason,
+} from "../types";
+
+type PageRow = {
+  fileName: string;
+  relativePath: string;
+  page: number;
+  text: string;
+};
+
+// ========== Retrieval & Packing Knobs (defaults, see RetrievalConfig) ==========
+const TOP_K = 80; // candidates per retriever and after fusion
+const NEIGHBOR_RADIUS = 3; // include ±3 pages for each hit
+const CHAR_BUDGET = 200000; // total context characters to send to LLM
+const MAX_BLOCKS = 100; // max number of packed windows
+const SENT_WINDOW = 2; // include ±2 sentences around each match
+const CHARS_PER_SENT_MAX = 600; // trim very long sentences
+const TEMPERATURE = 0.1;
+const MAX_ELEMENTS = 6; // cap on atomic elements per requirement
+const ATOMIC_MAX_WORDS = 20; // single-clause requirements this short skip decomposition
+const DEBUG_HITS = 30; // fused hits echoed back in debug output
+
+// Sentence score added per domain anchor (see Rx) found in a sentence
+export type SentenceWeights = Record<keyof typeof Rx, number>;
+
+const SENTENCE_WEIGHTS: SentenceWeights = {
+  verb: 3,
+  days: 3,
+  auth: 2,
+  hospice: 2,
+  retrospective: 2,
+  directPay: 2,
+  pcp: 2,
+  notify: 1,
+  claim: 1,
+  member: 1,
+  roomBoard: 2,
+  eob: 2,
+};
+
+// Hybrid retrieval: vector and BM25 rankings are merged with weighted
+// reciprocal rank fusion, score = Σ weight / (rrfK + rank). The rest are
+// the packing knobs above; `npm run eval` compares settings.
+export type RetrievalConfig = {
+  topK: number;
+  vectorWeight: number;
+  keywordWeight: number;
+  rrfK: number;
+  neighborRadius: number;
+  charBudget: number;
+  maxBlocks: number;
+  sentWindow: number;
+  weights: SentenceWeights;
+};
+
+// Partial settings; weights not given keep their defaults
+export type RetrievalOverrides = Partial<Omit<RetrievalConfig, "weights">> & {
+  weights?: Partial<SentenceWeights>;
+};
+
+export const DEFAULT_RETRIEVAL: RetrievalConfig = {
+  topK: TOP_K,
+  vectorWeight: Number(process.env.FUSION_VECTOR_WEIGHT ?? 1),
+  keywordWeight: Number(process.env.FUSION_KEYWORD_WEIGHT ?? 1),
+  rrfK: Number(process.env.FUSION_RRF_K ?? 60),
+  neighborRadius: NEIGHBOR_RADIUS,
+  charBudget: CHAR_BUDGET,
+  maxBlocks: MAX_BLOCKS,
+  sentWindow: SENT_WINDOW,
+  weights: SENTENCE_WEIGHTS,
+};
+
+export function retrievalConfig(
+  overrides: RetrievalOverrides = {}
+): RetrievalConfig {
+  return {
+    ...DEFAULT_RETRIEVAL,
+    ...overrides,
+    weights: { ...DEFAULT_RETRIEVAL.weights, ...overrides.weights },
+  };
+}
+
+// ========== Query preprocessing ==========
+function preprocessQuery(query: string): string {
+  // Expand abbreviations and synonyms to improve retrieval
+  const expansions = {
+    PCP: "primary care provider physician doctor",
+    MCP: "plan CalOptima Health organization entity",
+    member: "enrollee beneficiary patient client",
+    auth: "authorization prior auth preauthorization approval permission",
+    notify: "inform advise alert communicate notification",
+    days: "calendar days business days working days",
+    within: "no later than not to exceed by",
+    shall: "must will ensure require mandate",
+    claim: "claims billing",
+    EOB: "explanation of benefits remittance advice denial letter",
+    hospice: "end of life care palliative",
+    retrospective: "retro retroactive",
+    "direct payment": "direct pay",
+    "room and board": "room board accommodation",
+  };
+
+  let processed = query.toLowerCase();
+
+  // Apply expansions
+  for (const [abbrev, expansion] of Object.entries(expansions)) {
+    const regex = new RegExp(`\\b${abbrev.toLowerCase()}\\b`, "gi");
+    processed = processed.replace(regex, `${abbrev} ${expansion}`);
+  }
+
+  // Add policy-related terms to improve semantic matching
+  processed +=
+    " policy procedure guideline standard requirement compliance healthcare";
+
+  return processed;
+}
+
+// ========== Model output schemas ==========
+// Map the model's verdict onto Status; unknown values are left for the
+// enum to reject
+function normalizeStatus(raw: unknown): unknown {
+  if (typeof raw !== "string") return raw;
+  const k = raw
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ");
+  if (k === "met") return "Met";
+  if (k === "partially met" || k === "partial") return "Partially Met";
+  if (k === "not met") return "Not Met";
+  return raw;
+}
+
+const CitationSchema = z.object({
+  snippet: z.string().min(1),
+  fileName: z.string().min(1),
+  page: z.coerce.number().int().positive(),
+  covers: z
+    .string()
+    .nullish()
+    .transform((v) => v ?? undefined),
+});
+
+type RawCitation = z.infer<typeof CitationSchema>;
+
+// 0..1. Only clear percentages are scaled down: "85%", or a whole number
+// such as 85. Anything else out of range (e.g. 1.5) fails validation, so
+// the reply goes through the repair round-trip.
+function normalizeConfidence(raw: unknown): unknown {
+  const percent = (n: number) =>
+    Number.isInteger(n) && n > 1 && n <= 100 ? n / 100 : n;
+  if (typeof raw === "number") return percent(raw);
+  if (typeof raw !== "string" || !raw.trim()) return raw;
+  const t = raw.trim();
+  const n = Number(t.endsWith("%") ? t.slice(0, -1) : t);
+  if (Number.isNaN(n)) return raw;
+  return t.endsWith("%") ? n / 100 : percent(n);
+}
+
+const DecisionSchema = z
+  .object({
+    status: z.preprocess(
+      normalizeStatus,
+      z.enum(["Met", "Partially Met", "Not Met"])
+    ),
+    citations: z.array(CitationSchema).nullish(),
+    evidence: CitationSchema.nullish(), // older single-citation shape
+    rationale: z.string().nullish(),
+    confidence: z
+      .preprocess(normalizeConfidence, z.number().min(0).max(1))
+      .nullish(),
+  })
+  .transform(({ status, citations, evidence, rationale, confidence }) => ({
+    status,
+    citations: citations ?? (evidence ? [evidence] : []),
+    rationale: rationale?.trim() || undefined,
+    confidence: confidence ?? undefined,
+  }));
+
+const DecompositionSchema = z.object({ elements: z.array(z.string()) });
+
+// Citations verified against the page index and tagged with the cited
+// policy's id and effective date
+function parseCitations(raw: RawCitation[], ctx: CheckContext): Evidence[] {
+  return raw.map((c) => {
+    const meta = policyMeta(ctx, c.fileName);
+    return verifyCitation(
+      {
+        ...c,
+        policyId: meta?.policyId,
+        effectiveDate: meta?.effectiveDate,
+      },
+      ctx.db
+    );
+  });
+}
+
+// Throws on transport errors, an aborted request, and SchemaValidationError
+// when the reply is still invalid after one repair round-trip
+function callJsonDecision<T>(
+  ctx: CheckContext,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string
+): Promise<T> {
+  return generateStructured(ctx.provider, prompt, schema, {
+    label,
+    temperature: TEMPERATURE,
+    signal: ctx.signal,
+  });
+}
+
+// Provider failures the client gave up on get their own reasons, so a
+// rate-limited run is not mistaken for one the model could not answer
+function failureReason(
+  err: unknown,
+  fallback: UndeterminedReason
+): UndeterminedReason {
+  if (err instanceof RetriesExhaustedError) return "RETRIES_EXHAUSTED";
+  if (err instanceof CircuitOpenError) return "CIRCUIT_OPEN";
+  if (err instanceof SchemaValidationError) return "INVALID_RESPONSE";
+  return fallback;
+}
+
+// ========== Evidence harvesting (sentence-level) ==========
+function norm(s: string): string {
+  return s
+    .replace(/\u00A0/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+function splitSentences(t: string): string[] {
+  // simple & safe sentence splitter
+  const cleaned = norm(t);
+  const parts = cleaned
+    .split(/(?<=[\.\?\!])\s+(?=[A-Z(])/)
+    .map((x) => x.trim())
+    .filter(Boolean);
+  return parts.length ? parts : [cleaned];
+}
+
+// domain anchors: synonyms & signals
+const Rx = {
+  verb: /\b(shall|must|will|ensure|require)\b/i,
+  days: /\b(\d{1,3}|\b(?:fourteen|ten|fifteen|thirty|seven|two|three|five|twelve)\b)\s+(calendar|business)\s+days?\b/i,
+  auth: /\b(prior\s+)?authori[sz]e?[sd]?|pre[-\s]?auth(?:orization)?|approval\b/i,
+  hospice: /\bhospice\b/i,
+  retrospective: /\bretrospective\b/i,
+  directPay: /\bdirect\s+payment\b/i,
+  pcp: /\b(pcp|primary\s+care\s+provider)\b/i,
+  notify: /\bnotify|notification\b/i,
+  claim: /\bclaim[s]?\b/i,
+  member: /\b(member|enrollee|beneficiary)\b/i,
+  roomBoard: /\broom\s+and\s+board\b/i,
+  eob: /\b(explanation\s+of\s+benefits|eob|remittance\s+advice|denial\s+letter)\b/i,
+};
+
+function sentenceScore(
+  weights: SentenceWeights,
+  q: string,
+  sent: string
+): number {
+  // heuristic score: verbs + key concepts + numbers/days
+  let score = 0;
+  for (const key of Object.keys(Rx) as Array<keyof typeof Rx>)
+    if (Rx[key].test(sent)) score += weights[key];
+
+  // boost if question number appears
+  const numMatch = q.match(/\b(\d{1,3})\b/);
+  if (numMatch && sent.toLowerCase().includes(numMatch[1])) score += 2;
+
+  // More lenient length penalties
+  const len = sent.length;
+  if (len < 30) score -= 0.3; // reduced penalty
+  if (len > 500) score -= 0.3; // reduced penalty and increased threshold
+
+  // Additional scoring for policy-related terms
+  if (
+    /\b(policy|procedure|guideline|standard|requirement|compliance)\b/i.test(
+      sent
+    )
+  )
+    score += 1;
+  if (/\b(shall|must|will|ensure|require|mandate)\b/i.test(sent)) score += 1.5;
+  if (/\b(within|no later than|not to exceed|prior to|before)\b/i.test(sent))
+    score += 1;
+
+  return score;
+}
+
+type Block = { fileName: string; page: number; text: string; score: number };
+
+// More lenient harvesting for when initial approach fails
+function harvestBlocksLenient(
+  cfg: RetrievalConfig,
+  q: string,
+  pages: Array<{ fileName: string; page: number; text: string; base: number }>
+): Block[] {
+  const blocks: Block[] = [];
+  for (const p of pages) {
+    const sents = splitSentences(p.text);
+    for (let i = 0; i < sents.length; i++) {
+      const core = sents[i].slice(0, CHARS_PER_SENT_MAX);
+      const sc = sentenceScore(cfg.weights, q, core);
+
+      // Much more lenient scoring - include almost everything
+      if (sc < -1) continue; // only exclude very negative scores
+
+      // include ± window
+      const win: string[] = [core];
+      for (let w = 1; w <= cfg.sentWindow; w++) {
+        if (i - w >= 0) win.unshift(sents[i - w].slice(0, CHARS_PER_SENT_MAX));
+        if (i + w < sents.length)
+          win.push(sents[i + w].slice(0, CHARS_PER_SENT_MAX));
+      }
+      const text = norm(win.join(" "));
+
+      // combine sentence score w/ page base (cosine rank turned into small bonus)
+      const score = Math.max(sc + p.base, 0.1); // ensure minimum score
+
+      blocks.push({ fileName: p.fileName, page: p.page, text, score });
+    }
+  }
+
+  // dedupe similar blocks by key
+  const seen = new Set<string>();
+  const deduped: Block[] = [];
+  for (const b of blocks) {
+    const key = `${b.fileName}#${b.page}#${b.text.slice(0, 160).toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    deduped.push(b);
+  }
+
+  // sort by score descending
+  deduped.sort((a, b) => b.score - a.score);
+  return deduped;
+}
+
+function harvestBlocks(
+  cfg: RetrievalConfig,
+  q: string,
+  pages: Array<{ fileName: string; page: number; text: string; base: number }>
+): Block[] {
+  const blocks: Block[] = [];
+  for (const p of pages) {
+    const sents = splitSentences(p.text);
+    for (let i = 0; i < sents.length; i++) {
+      const core = sents[i].slice(0, CHARS_PER_SENT_MAX);
+      const sc = sentenceScore(cfg.weights, q, core);
+      if (sc <= 0) continue;
+
+      // include ± window
+      const win: string[] = [core];
+      for (let w = 1; w <= cfg.sentWindow; w++) {
+        if (i - w >= 0) win.unshift(sents[i - w].slice(0, CHARS_PER_SENT_MAX));
+        if (i + w < sents.length)
+          win.push(sents[i + w].slice(0, CHARS_PER_SENT_MAX));
+      }
+      const text = norm(win.join(" "));
+
+      // combine sentence score w/ page base (cosine rank turned into small bonus)
+      const score = sc + p.base;
+
+      blocks.push({ fileName: p.fileName, page: p.page, text, score });
+    }
+  }
+
+  // dedupe similar blocks by key
+  const seen = new Set<string>();
+  const deduped: Block[] = [];
+  for (const b of blocks) {
+    const key = `${b.fileName}#${b.page}#${b.text.slice(0, 160).toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    deduped.push(b);
+  }
+
+  // sort by score descending
+  deduped.sort((a, b) => b.score - a.score);
+  return deduped;
+}
+
+function packBlocks(cfg: RetrievalConfig, blocks: Block[]): string[] {
+  const out: string[] = [];
+  let used = 0;
+
+  // More aggressive packing: try to fit more content within budget
+  for (let i = 0; i < blocks.length && out.length < cfg.maxBlocks; i++) {
+    const b = blocks[i];
+    const chunk = `[${out.length + 1}] ${b.fileName} p.${b.page}\n"""${
+      b.text
+    }"""`;
+
+    // Allow going slightly over budget for important blocks (first 20 blocks)
+    const budgetThreshold =
+      out.length < 20 ? cfg.charBudget * 1.1 : cfg.charBudget;
+
+    if (used + chunk.length > budgetThreshold) {
+      // If we're still early in the process, try to fit this block anyway
+      if (out.length < 10) {
+        out.push(chunk);
+        used += chunk.length + 2;
+        continue;
+      }
+      break;
+    }
+
+    out.push(chunk);
+    used += chunk.length + 2;
+  }
+  return out;
+}
+
+// ========== Per-request context ==========
+export type CheckContext = {
+  db: PageFetcher;
+  emb: EmbIndex;
+  keyword: KeywordIndex | null;
+  provider: Provider;
+  retrieval: RetrievalConfig;
+  debug: boolean; // attach per-element retrieval hits to results
+  debugHits: number; // how many of them
+  policies: Map<string, PolicyMeta>; // fileName -> version metadata
+  asOf?: string; // audit date (yyyy-mm-dd)
+  inEffect: Set<string> | null; // files searched when asOf is set
+  corpus: CorpusVersion;
+  calibration: Calibration | null; // null: raw confidence scores
+  signal?: AbortSignal; // once aborted, questions stop before their next model call
+};
+
+// Written by `npm run eval -- questions.json --fit-calibration <file>`
+const CALIBRATION_FILE =
+  process.env.CONFIDENCE_CALIBRATION ??
+  path.join(process.cwd(), "data", "confidence-calibration.json");
+
+function readCalibration(): Calibration | null {
+  if (!fs.existsSync(CALIBRATION_FILE)) return null;
+  const cal = JSON.parse(fs.readFileSync(CALIBRATION_FILE, "utf8"));
+  if (!Number.isFinite(cal?.a) || !Number.isFinite(cal?.b)) {
+    console.warn(
+      `WARNING: ${CALIBRATION_FILE} has no Platt parameters; confidence is uncalibrated.`
+    );
+    return null;
+  }
+  return cal as Calibration;
+}
+
+export async function loadCheckContext(
+  opts: {
+    retrieval?: RetrievalOverrides;
+    debug?: boolean;
+    debugHits?: number;
+    asOf?: string;
+    provider?: Provider; // defaults to the one configured by env
+    calibration?: Calibration | null; // defaults to CALIBRATION_FILE
+    signal?: AbortSignal;
+  } = {}
+): Promise<CheckContext> {
+  // DB: fetch page text by (fileName, page)
+  const db = getDb();
+
+  // Embedding index
+  const emb = getEmbIndex();
+  const provider = opts.provider ?? getProvider();
+  if (emb.model !== provider.embedModel) {
+    console.warn(
+      `WARNING: embedding index was built with ${emb.model}, queries use ${provider.embedModel}.`
+    );
+  }
+
+  // BM25 index (null when policies.db is unavailable)
+  const keyword = await getKeywordIndex();
+
+  // Version metadata; file names missing from policies.db are parsed here
+  const policies = new Map(await getPolicyMetaIndex());
+  for (const { fileName } of emb.items) {
+    if (policies.has(fileName)) continue;
+    const meta = parsePolicyFileName(fileName);
+    if (meta) policies.set(fileName, meta);
+  }
+
+  let inEffect: Set<string> | null = null;
+  if (opts.asOf) {
+    inEffect = filesInEffect([...policies.values()], opts.asOf);
+    // Files with no parseable policy id are never version-filtered
+    for (const { fileName } of emb.items)
+      if (!policies.has(fileName)) inEffect.add(fileName);
+  }
+
+  return {
+    db,
+    emb,
+    keyword,
+    provider,
+    retrieval: retrievalConfig(opts.retrieval),
+    debug: opts.debug ?? false,
+    debugHits: opts.debugHits ?? DEBUG_HITS,
+    policies,
+    asOf: opts.asOf,
+    inEffect,
+    corpus: {
+      embeddingModel: emb.model,
+      embeddingsBuiltAt: emb.builtAt,
+      policiesIngestedAt: await getLastIngestAt(),
+    },
+    calibration:
+      opts.calibration !== undefined ? opts.calibration : readCalibration(),
+    signal: opts.signal,
+  };
+}
+
+function policyMeta(
+  ctx: CheckContext,
+  fileName: string
+): PolicyMeta | undefined {
+  return (
+    ctx.policies.get(fileName) ?? parsePolicyFileName(fileName) ?? undefined
+  );
+}
+
+// ========== Retrieval → packed excerpts ==========
+type ExcerptSource = { fileName: string; page: number };
+
+type Retrieved = {
+  context: string;
+  hits: RetrievalHit[];
+  sources: ExcerptSource[]; // excerpt [n] is sources[n - 1]
+  topSimilarity?: number; // cosine similarity of the best vector hit
+};
+
+// Where each packed excerpt came from, read back from its header
+function excerptSources(packed: string[]): ExcerptSource[] {
+  return packed.map((p) => {
+    const m = p.match(/^\[\d+\] (.+) p\.(\d+)\n/);
+    return { fileName: m?.[1] ?? "", page: Number(m?.[2] ?? 0) };
+  });
+}
+
+// "[3]" or "[3, 5]" in a rationale → "[3: file.pdf p.12]", so reviewers can
+// follow it without the packed context
+function resolveExcerptRefs(rationale: string, sources: ExcerptSource[]) {
+  return rationale.replace(/\[(\d+(?:\s*,\s*\d+)*)\]/g, (all, list: string) => {
+    const refs = list.split(",").map((n) => {
+      const src = sources[Number(n) - 1];
+      return src ? `${n.trim()}: ${src.fileName} p.${src.page}` : null;
+    });
+    return refs.every(Boolean) ? `[${refs.join("; ")}]` : all;
+  });
+}
+
+async function retrieveContext(
+  ctx: CheckContext,
+  text: string
+): Promise<Retrieved | { reason: UndeterminedReason }> {
+  // 1) Embed query (with preprocessing for better retrieval)
+  let qVec: Float32Array;
+  ctx.signal?.throwIfAborted();
+  try {
+    const processedQuery = preprocessQuery(text);
+    qVec = await ctx.provider.embedQuery(processedQuery);
+  } catch (err) {
+    console.error(`embed failed for "${text}":`, err);
+    return { reason: failureReason(err, "EMBEDDING_FAILED") };
+  }
+
+  // 2) Nearest neighbors (chunks, or pages for an older index)
+  // Only policies in effect on the audit date, when one is set
+  const { topK } = ctx.retrieval;
+  const inEffect = ctx.inEffect;
+  const allow = inEffect ? (f: string) => inEffect.has(f) : undefined;
+  const vectorHits = searchEmbIndex(
+    ctx.emb,
+    qVec,
+    topK,
+    allow && ((item) => allow(item.fileName))
+  );
+  const vectorTop = vectorHits.map(({ idx }) => ctx.emb.items[idx]);
+
+  // 2b) BM25 on the raw text: exact terms like "APL 21-011" or day counts
+  const keywordTop = ctx.keyword
+    ? searchKeyword(ctx.keyword, text, topK, allow)
+    : [];
+
+  const top = fuseRankings(ctx.retrieval, vectorTop, keywordTop);
+  const maxFused = top[0]?.score || 1;
+
+  // 3) Expand with neighbors (±neighborRadius). A chunk hit contributes
+  // just its chunk; neighbouring pages come in whole for context. A whole
+  // page replaces any of its chunks already wanted, so no text packs twice.
+  const want = new Map<
+    string,
+    {
+      fileName: string;
+      page: number;
+      base: number;
+      start?: number;
+      end?: number;
+    }
+  >();
+  const { neighborRadius, charBudget } = ctx.retrieval;
+  for (const item of top) {
+    for (let d = -neighborRadius; d <= neighborRadius; d++) {
+      const pg = item.page + d;
+      if (pg < 1) continue;
+      const pageKey = `${item.fileName}#${pg}`;
+      const isChunk = d === 0 && item.start !== undefined;
+      const key = isChunk ? `${pageKey}@${item.start}` : pageKey;
+      // Base score: normalized fused rank → small bonus
+      const base = 0.25 * (item.score / maxFused);
+      if (want.has(key) || (isChunk && want.has(pageKey))) continue;
+      if (!isChunk)
+        for (const k of want.keys())
+          if (k.startsWith(`${pageKey}@`)) want.delete(k);
+      want.set(key, {
+        fileName: item.fileName,
+        page: pg,
+        base,
+        start: isChunk ? item.start : undefined,
+        end: isChunk ? item.end : undefined,
+      });
+    }
+  }
+
+  // 4) Pull text for wanted pages / chunks
+  const pages: Array<{
+    fileName: string;
+    page: number;
+    text: string;
+    base: number;
+  }> = [];
+  for (const v of want.values()) {
+    let row: PageRow | undefined;
+    try {
+      row = ctx.db.get(v.fileName, v.page);
+    } catch {}
+    if (!row?.text) continue;
+    const full = String(row.text);
+    pages.push({
+      fileName: v.fileName,
+      page: v.page,
+      text: v.start !== undefined ? full.slice(v.start, v.end) : full,
+      base: v.base,
+    });
+  }
+
+  if (pages.length === 0) {
+    return { reason: "NO_PAGES" };
+  }
+
+  // 5) Harvest + pack many small evidence windows within budget
+  const blocks = harvestBlocks(ctx.retrieval, text, pages);
+  let packed = packBlocks(ctx.retrieval, blocks);
+
+  // If we still have very few blocks, try a more aggressive approach
+  if (packed.length < 5) {
+    const lenientBlocks = harvestBlocksLenient(ctx.retrieval, text, pages);
+    packed = packBlocks(ctx.retrieval, lenientBlocks);
+  }
+  if (packed.length === 0) {
+    // fallback: coarse packing of whole pages if no sentence hits
+    const fallbackPages = Math.min(pages.length, 20);
+    const chunkSize = Math.floor(charBudget / fallbackPages);
+
+    for (const p of pages.slice(0, fallbackPages)) {
+      const txt = norm(p.text).slice(0, chunkSize);
+      packed.push(
+        `[${packed.length + 1}] ${p.fileName} p.${p.page}\n"""${txt}"""`
+      );
+      if (packed.join("\n\n").length > charBudget) break;
+    }
+  }
+  return {
+    context: packed.join("\n\n"),
+    hits: top,
+    sources: excerptSources(packed),
+    topSimilarity: vectorHits[0]?.score,
+  };
+}
+
+// ========== Decomposition ==========
+// One obligation at a glance: short, no list punctuation or enumerators
+// and no conjunctions that could join two obligations
+function looksAtomic(text: string): boolean {
+  return (
+    text.split(/\s+/).length <= ATOMIC_MAX_WORDS &&
+    !/[;:\n•]|\([a-z0-9]{1,3}\)|\b(and|or|including|as well as)\b/i.test(text)
+  );
+}
+
+// Split a requirement into atomic obligations; single-clause ones skip the
+// model call. Falls back to the whole requirement as one element when the
+// model gives nothing usable, but not when the provider is unavailable.
+async function decompose(
+  ctx: CheckContext,
+  text: string
+): Promise<string[] | { reason: UndeterminedReason }> {
+  if (looksAtomic(text)) return [text];
+  const prompt = `
+You are a healthcare compliance auditor. Split the audit requirement below into its atomic elements: each element is ONE obligation the policy must state (an action, a timeframe, a recipient, a required content item, a method of delivery).
+
+Return STRICT JSON only:
+{ "elements": string[] }
+
+Rules:
+- Keep the original wording and subject ("The MCP must ...") so each element reads as a standalone requirement.
+- Do not invent obligations that are not in the requirement.
+- If the requirement has only one obligation, return it unchanged as the single element.
+
+REQUIREMENT:
+${text}
+`.trim();
+
+  try {
+    const parsed = await callJsonDecision(
+      ctx,
+      prompt,
+      DecompositionSchema,
+      "decomposition"
+    );
+    const list = parsed.elements.map(norm).filter(Boolean);
+    if (list.length > 0) return list.slice(0, MAX_ELEMENTS);
+    console.warn(`decomposition returned no elements for "${text}"`);
+  } catch (err) {
+    if (ctx.signal?.aborted) throw err;
+    // The provider is down, so checking the elements would fail as well
+    if (err instanceof RetriesExhaustedError || err instanceof CircuitOpenError)
+      return { reason: failureReason(err, "RETRIES_EXHAUSTED") };
+    console.warn(`decomposition failed for "${text}":`, err);
+  }
+  return [text];
+}
+
+// ========== Decision per element ==========
+async function checkElement(
+  ctx: CheckContext,
+  requirement: string,
+  element: string
+): Promise<ElementResult> {
+  const retrieved = await retrieveContext(ctx, element);
+  if ("reason" in retrieved) {
+    return { text: element, status: "Undetermined", reason: retrieved.reason };
+  }
+  const context = retrieved.context;
+  const retrieval = ctx.debug
+    ? retrieved.hits.slice(0, ctx.debugHits)
+    : undefined;
+
+  // Judge the element alone, but show the full requirement for context
+  const scope =
+    element === requirement
+      ? ""
+      : `\nThe REQUIREMENT below is one element of this larger audit requirement, judge only the element: "${requirement}"`;
+
+  // Decision (looser rubric still)
+  const prompt = `
+You are a healthcare compliance auditor. Decide if the requirement is MET, PARTIALLY MET or NOT MET based ONLY on the provided excerpts.${scope}
+If MET or PARTIALLY MET, cite the verbatim evidence snippets that support it.
+
+Return STRICT JSON only:
+{
+  "status": "Met" | "Partially Met" | "Not Met",
+  "citations": [
+    { "snippet": string, "fileName": string, "page": number, "covers": string }
+  ],
+  "rationale": string,
+  "confidence": number
+}
+"covers" names the part of the requirement the snippet satisfies (e.g. "14 calendar day timeframe", "written notice", "notify the PCP").
+"rationale" explains the verdict in one or two sentences, referring to excerpts by their numbers (e.g. "[2] sets the 14-day timeframe; no excerpt requires notifying the PCP.").
+"confidence" is how sure you are of the status, from 0 (guess) to 1 (certain).
+
+REQUIREMENT:
+${element}
+
+EXCERPTS:
+${context}
+
+Decision rubric (recall-favoring):
+- Consider the policy MET if its language clearly commits to the requirement, even if phrasing differs.
+- Treat these as equivalent: 
+  • "no later than" ~ "within" ~ "not to exceed" ~ "by" (+ number of days)
+  • "authorization" ~ "prior auth" ~ "preauthorization" ~ "approval" ~ "permission"
+  • "PCP" ~ "primary care provider" ~ "physician" ~ "doctor"
+  • "Member" ~ "enrollee" ~ "beneficiary" ~ "patient" ~ "client"
+  • "MCP" ~ "plan" ~ "CalOptima Health" ~ "organization" ~ "entity"
+  • "calendar days" ~ "business days" ~ "working days" (unless specifically different)
+  • "notify" ~ "inform" ~ "advise" ~ "alert" ~ "communicate"
+- Number forms like "fourteen (14) calendar days" ~ "14 calendar days" ~ "fourteen calendar days".
+- Requirements often have several parts satisfied in different places, possibly different policies. Give one citation per part (at most 6), each a single sentence that most directly states that commitment.
+- Look for implicit commitments - if the policy describes a process that logically requires the action, consider it MET.
+- Consider partial matches - if the requirement is mostly met with minor variations, lean toward MET.
+- Answer "Partially Met" when the excerpts commit to some parts of the requirement but clearly omit others (e.g. the timeframe or a required recipient).
+- Only answer "Not Met" if the excerpts clearly do NOT support the requirement or contradict it.
+`.trim();
+
+  try {
+    const decision = await callJsonDecision(
+      ctx,
+      prompt,
+      DecisionSchema,
+      "decision"
+    );
+    const { status } = decision;
+    const citations =
+      status !== "Not Met" ? parseCitations(decision.citations, ctx) : [];
+    for (const c of citations) {
+      if (c.verification?.status === "unverified") {
+        console.warn(
+          `unverifiable citation for "${element}": ${c.fileName} p.${c.page}`
+        );
+      }
+    }
+
+    const factors = confidenceFactors({
+      status,
+      selfReport: decision.confidence,
+      topSimilarity: retrieved.topSimilarity,
+      citations,
+    });
+    return {
+      text: element,
+      status,
+      citations,
+      rationale:
+        decision.rationale &&
+        resolveExcerptRefs(decision.rationale, retrieved.sources),
+      confidence: calibrate(combineConfidence(factors), ctx.calibration),
+      confidenceCalibrated: ctx.calibration ? true : undefined,
+      confidenceFactors: factors,
+      retrieval,
+    };
+  } catch (err) {
+    if (ctx.signal?.aborted) throw err;
+    console.error(`decision failed for "${element}":`, err);
+    return {
+      text: element,
+      status: "Undetermined",
+      reason: failureReason(err, "LLM_FAILED"),
+      retrieval,
+    };
+  }
+}
+
+// ========== Aggregation ==========
+// All elements Met → Met; none Met → Not Met; otherwise Partially Met.
+// Undetermined elements only decide the outcome when nothing is Not Met,
+// since the missing answers could still make the requirement Met.
+function aggregate(elements: ElementResult[]): {
+  status: Status;
+  reason?: UndeterminedReason;
+} {
+  const count = (s: Status) => elements.filter((e) => e.status === s).length;
+  const met = count("Met");
+  const partial = count("Partially Met");
+  const notMet = count("Not Met");
+  const undecided = elements.find((e) => e.status === "Undetermined");
+
+  if (undecided && notMet === 0)
+    return { status: "Undetermined", reason: undecided.reason };
+  if (met === elements.length) return { status: "Met" };
+  if (met + partial === 0) return { status: "Not Met" };
+  return { status: "Partially Met" };
+}
+
+export async function checkQuestion(
+  ctx: CheckContext,
+  q: Question
+): Promise<CheckResult> {
+  const parts = await decompose(ctx, q.text);
+  if ("reason" in parts)
+    return { questionId: q.id, status: "Undetermined", reason: parts.reason };
+
+  const elements: ElementResult[] = [];
+  for (const part of parts)
+    elements.push(await checkElement(ctx, q.text, part));
+
+  const { status, reason } = aggregate(elements);
+  // Citations default to covering the element they were found for
+  const citations = elements.flatMap((e) =>
+    (e.citations ?? []).map((c) =>
+      parts.length > 1 ? { ...c, covers: c.covers ?? e.text } : c
+    )
+  );
+
+  // Per-element rationales are numbered to match the breakdown
+  const rationale =
+    parts.length > 1
+      ? elements
+          .map((e, i) => e.rationale && `(${i + 1}) ${e.rationale}`)
+          .filter(Boolean)
+          .join(" ")
+      : elements[0].rationale;
+
+  const confidence = requirementConfidence(elements);
+  return {
+    questionId: q.id,
+    status,
+    reason,
+    citations,
+    rationale: rationale || undefined,
+    confidence,
+    confidenceCalibrated:
+      confidence !== undefined && ctx.calibration ? true : undefined,
+    confidenceFactors:
+      parts.length > 1 ? undefined : elements[0].confidenceFactors,
+    // Single-element breakdowns are only kept for debug output
+    elements: parts.length > 1 || ctx.debug ? elements : undefined,
+  };
+}
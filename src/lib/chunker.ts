@@ -0,0 +1,120 @@
+// Split policy page text into overlapping chunks for embedding. Page text is
+// stored whitespace-collapsed, so structure comes from heading markers
+// ("III. PROCEDURE", "A. ", "2. ") and sentence ends rather than newlines.
+
+export type ChunkOptions = {
+  maxChars: number; // hard cap per chunk (before overlap)
+  minChars: number; // don't flush a chunk at a section heading below this
+  overlap: number; // chars carried over from the previous chunk
+};
+
+export const DEFAULT_CHUNKING: ChunkOptions = {
+  maxChars: 1200,
+  minChars: 300,
+  overlap: 200,
+};
+
+export type Chunk = { start: number; end: number; text: string };
+
+type Segment = { start: number; end: number; major: boolean };
+
+// Major: roman-numeral section headings in caps. Minor: lettered or numbered
+// sub-items that start a sentence.
+const MAJOR = /(?<=^|\s)[IVX]{1,5}\.\s+[A-Z][A-Z,&/ -]{2,}/g;
+const MINOR = /(?<=[.:;]\s+|^)(?:[A-Z]|\d{1,2}|[a-z]|\(\w{1,3}\))[.)]\s+[A-Z]/g;
+const SENTENCE_END = /[.?!;:](?=\s+[A-Z(])/g;
+
+function boundaries(text: string): Segment[] {
+  const marks = new Map<number, boolean>([[0, true]]);
+  for (const m of text.matchAll(MAJOR)) marks.set(m.index!, true);
+  for (const m of text.matchAll(MINOR))
+    if (!marks.has(m.index!)) marks.set(m.index!, false);
+
+  const starts = [...marks.keys()].sort((a, b) => a - b);
+  return starts.map((start, i) => ({
+    start,
+    end: i + 1 < starts.length ? starts[i + 1] : text.length,
+    major: marks.get(start)!,
+  }));
+}
+
+// Cut an oversized segment at sentence ends (or hard cut) below maxChars
+function splitLong(text: string, seg: Segment, maxChars: number): Segment[] {
+  const out: Segment[] = [];
+  let from = seg.start;
+  while (seg.end - from > maxChars) {
+    const limit = from + maxChars;
+    let cut = -1;
+    SENTENCE_END.lastIndex = from;
+    for (let m; (m = SENTENCE_END.exec(text)) && m.index < limit;)
+      cut = m.index + 1;
+    if (cut <= from) {
+      const space = text.lastIndexOf(" ", limit);
+      cut = space > from ? space : limit;
+    }
+    out.push({ start: from, end: cut, major: from === seg.start && seg.major });
+    from = cut;
+  }
+  out.push({
+    start: from,
+    end: seg.end,
+    major: from === seg.start && seg.major,
+  });
+  return out;
+}
+
+export function chunkText(
+  text: string,
+  opts: ChunkOptions = DEFAULT_CHUNKING
+): Chunk[] {
+  if (!text.trim()) return [];
+
+  const segments = boundaries(text).flatMap((s) =>
+    s.end - s.start > opts.maxChars ? splitLong(text, s, opts.maxChars) : [s]
+  );
+
+  // Greedy packing; a major heading starts a new chunk once minChars is met
+  const spans: Array<{ start: number; end: number }> = [];
+  let cur: { start: number; end: number } | null = null;
+  for (const seg of segments) {
+    if (!cur) {
+      cur = { start: seg.start, end: seg.end };
+      continue;
+    }
+    const size = cur.end - cur.start;
+    const fits = seg.end - cur.start <= opts.maxChars;
+    if (fits && !(seg.major && size >= opts.minChars)) {
+      cur.end = seg.end;
+    } else {
+      spans.push(cur);
+      cur = { start: seg.start, end: seg.end };
+    }
+  }
+  if (cur) spans.push(cur);
+
+  return spans.map(({ start, end }, i) => {
+    // Overlap: back up into the previous chunk (at most half of it), snapped
+    // to a sentence start if there is one in range, else a word start
+    if (i > 0 && opts.overlap > 0) {
+      const prev = spans[i - 1];
+      const back = Math.max(
+        start - opts.overlap,
+        prev.start + Math.ceil((prev.end - prev.start) / 2)
+      );
+      SENTENCE_END.lastIndex = back;
+      const m = SENTENCE_END.exec(text);
+      const space = text.indexOf(" ", back);
+      if (m && m.index + 2 < start) start = m.index + 2;
+      else if (space >= 0 && space + 1 < start) start = space + 1;
+    }
+    const raw = text.slice(start, end);
+    // Trim whitespace without losing track of the offsets
+    const lead = raw.length - raw.trimStart().length;
+    const trail = raw.length - raw.trimEnd().length;
+    return {
+      start: start + lead,
+      end: end - trail,
+      text: raw.trim(),
+    };
+  });
+}
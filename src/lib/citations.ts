@@ -0,0 +1,139 @@
+import type { PageFetcher } from "./db";
+import type { CitationCheck, Evidence } from "../types";
+
+// How far from the cited page to look for the snippet
+const PAGE_RADIUS = 1;
+// Token-overlap thresholds for the best matching window
+const VERIFIED_MIN = 0.9;
+const APPROXIMATE_MIN = 0.6;
+
+type Token = { word: string; start: number; end: number };
+
+function normWord(w: string): string {
+  return w
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9'%$]/g, "");
+}
+
+// Tokens keep their char offsets into the original text
+function tokenize(text: string): Token[] {
+  const out: Token[] = [];
+  for (const m of text.matchAll(/\S+/g)) {
+    const word = normWord(m[0]);
+    if (!word) continue;
+    out.push({ word, start: m.index!, end: m.index! + m[0].length });
+  }
+  return out;
+}
+
+// Slide a snippet-sized window over the page and score each position by the
+// share of snippet tokens it contains (bag of words, so reordered or lightly
+// paraphrased quotes still score, just lower than verbatim ones).
+function bestWindow(
+  snippet: string[],
+  page: Token[]
+): { score: number; start: number; end: number } | null {
+  const n = snippet.length;
+  if (!n || !page.length) return null;
+
+  const want = new Map<string, number>();
+  for (const w of snippet) want.set(w, (want.get(w) ?? 0) + 1);
+
+  const have = new Map<string, number>();
+  let hits = 0;
+  const add = (w: string) => {
+    const c = (have.get(w) ?? 0) + 1;
+    have.set(w, c);
+    if (c <= (want.get(w) ?? 0)) hits++;
+  };
+  const remove = (w: string) => {
+    const c = have.get(w)!;
+    if (c <= (want.get(w) ?? 0)) hits--;
+    have.set(w, c - 1);
+  };
+
+  const size = Math.min(n, page.length);
+  for (let i = 0; i < size; i++) add(page[i].word);
+
+  let best = { hits, at: 0 };
+  for (let i = size; i < page.length; i++) {
+    remove(page[i - size].word);
+    add(page[i].word);
+    if (hits > best.hits) best = { hits, at: i - size + 1 };
+  }
+
+  return {
+    score: best.hits / n,
+    start: page[best.at].start,
+    end: page[best.at + size - 1].end,
+  };
+}
+
+// Char range of the best snippet match in a page's text, for highlighting
+export function locateSnippet(
+  snippet: string,
+  text: string
+): { score: number; start: number; end: number } | null {
+  const m = bestWindow(
+    tokenize(snippet).map((t) => t.word),
+    tokenize(text)
+  );
+  return m && m.score >= APPROXIMATE_MIN ? m : null;
+}
+
+// Fuzzy-match an evidence snippet against the cited page and its neighbours.
+// Returns the evidence with the best page and a verification record.
+export function verifyCitation(ev: Evidence, db: PageFetcher): Evidence {
+  const snippet = tokenize(ev.snippet).map((t) => t.word);
+
+  let best: { page: number; score: number; start: number; end: number } | null =
+    null;
+  for (let d = 0; d <= PAGE_RADIUS; d++) {
+    for (const page of d === 0 ? [ev.page] : [ev.page - d, ev.page + d]) {
+      if (page < 1) continue;
+      const row = db.get(ev.fileName, page);
+      if (!row?.text) continue;
+      const m = bestWindow(snippet, tokenize(row.text));
+      // strict ">" keeps the cited page on ties
+      if (m && (!best || m.score > best.score)) best = { page, ...m };
+    }
+  }
+
+  if (!best) {
+    return {
+      ...ev,
+      verification: { status: "unverified", score: 0 },
+    };
+  }
+
+  const status: CitationCheck["status"] =
+    best.score >= VERIFIED_MIN
+      ? "verified"
+      : best.score >= APPROXIMATE_MIN
+        ? "approximate"
+        : "unverified";
+
+  // Only trust the located page/offsets when the match is meaningful
+  if (status === "unverified") {
+    return {
+      ...ev,
+      verification: { status, score: round(best.score) },
+    };
+  }
+  return {
+    ...ev,
+    page: best.page,
+    verification: {
+      status,
+      score: round(best.score),
+      citedPage: best.page !== ev.page ? ev.page : undefined,
+      start: best.start,
+      end: best.end,
+    },
+  };
+}
+
+function round(x: number): number {
+  return Math.round(x * 100) / 100;
+}
@@ -0,0 +1,205 @@
+import { z } from "zod";
+import type {
+  CheckResult,
+  CitedLocation,
+  Evidence,
+  MovedEvidence,
+  Question,
+  QuestionDiff,
+  ResultSet,
+  RunComparison,
+} from "../types";
+
+const EvidenceSchema = z
+  .object({ snippet: z.string(), fileName: z.string(), page: z.number() })
+  .passthrough();
+
+// Result sets uploaded as JSON. Results exported before multiple citations
+// carry a single `evidence` instead of `citations`.
+export const ResultSetSchema = z.object({
+  name: z.string().optional(),
+  questions: z.array(
+    z.object({ id: z.string(), text: z.string() }).passthrough()
+  ),
+  results: z.array(
+    z
+      .object({
+        questionId: z.string(),
+        status: z.enum(["Met", "Partially Met", "Not Met", "Undetermined"]),
+        citations: z.array(EvidenceSchema).optional(),
+        evidence: EvidenceSchema.nullish(),
+      })
+      .passthrough()
+      .transform(({ evidence, citations, ...r }) => ({
+        ...r,
+        citations: citations ?? (evidence ? [evidence] : []),
+      }))
+  ),
+});
+
+// Snippets this similar (token Jaccard) are taken to be the same evidence
+const SAME_SNIPPET_MIN = 0.5;
+
+// Question ids are positional (q_N) and shift when extraction changes, so
+// questions are matched on their normalized text instead
+function questionKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let common = 0;
+  for (const w of a) if (b.has(w)) common++;
+  return common / (a.size + b.size - common);
+}
+
+function location(c: Evidence): CitedLocation {
+  return { fileName: c.fileName, page: c.page, policyId: c.policyId };
+}
+
+// Pair each later citation with the most similar earlier one (by snippet,
+// else by the element it covers) and report those that changed place
+function movedEvidence(before: Evidence[], after: Evidence[]): MovedEvidence[] {
+  const moved: MovedEvidence[] = [];
+  const used = new Set<number>();
+  const beforeWords = before.map((c) => words(c.snippet));
+
+  for (const c of after) {
+    const w = words(c.snippet);
+    let best = -1;
+    let bestScore = SAME_SNIPPET_MIN;
+    beforeWords.forEach((bw, i) => {
+      if (used.has(i)) return;
+      const s = jaccard(w, bw);
+      if (s >= bestScore) {
+        best = i;
+        bestScore = s;
+      }
+    });
+    if (best < 0 && c.covers) {
+      best = before.findIndex(
+        (b, i) =>
+          !used.has(i) &&
+          b.covers !== undefined &&
+          questionKey(b.covers) === questionKey(c.covers!)
+      );
+    }
+    if (best < 0) continue;
+    used.add(best);
+    const prev = before[best];
+    if (prev.fileName !== c.fileName || prev.page !== c.page) {
+      moved.push({
+        snippet: c.snippet,
+        covers: c.covers,
+        from: location(prev),
+        to: location(c),
+      });
+    }
+  }
+  return moved;
+}
+
+function citedFiles(r?: CheckResult): Set<string> {
+  return new Set((r?.citations ?? []).map((c) => c.fileName));
+}
+
+function minus(a: Set<string>, b: Set<string>): string[] {
+  return [...a].filter((x) => !b.has(x)).sort();
+}
+
+function diffQuestion(
+  text: string,
+  before?: { q: Question; r?: CheckResult },
+  after?: { q: Question; r?: CheckResult }
+): QuestionDiff {
+  const b = before?.r;
+  const a = after?.r;
+  const moved = movedEvidence(b?.citations ?? [], a?.citations ?? []);
+  const newDocuments = b && a ? minus(citedFiles(a), citedFiles(b)) : [];
+  const droppedDocuments = b && a ? minus(citedFiles(b), citedFiles(a)) : [];
+
+  let change: QuestionDiff["change"];
+  if (!b) change = "added";
+  else if (!a) change = "removed";
+  else if (a.status !== b.status) change = "flipped";
+  else if (moved.length || newDocuments.length || droppedDocuments.length)
+    change = "evidence";
+  else change = "unchanged";
+
+  return {
+    text,
+    change,
+    before: b && { questionId: b.questionId, status: b.status },
+    after: a && { questionId: a.questionId, status: a.status },
+    moved,
+    newDocuments,
+    droppedDocuments,
+  };
+}
+
+// Questions without a result (e.g. a cancelled run) count as missing
+function answered(set: ResultSet): Array<{ q: Question; r: CheckResult }> {
+  const byId = new Map(set.results.map((r) => [r.questionId, r]));
+  return set.questions.flatMap((q) => {
+    const r = byId.get(q.id);
+    return r ? [{ q, r }] : [];
+  });
+}
+
+export function compareResultSets(
+  before: ResultSet,
+  after: ResultSet
+): RunComparison {
+  // Duplicate texts pair up in order
+  const pending = new Map<string, Array<{ q: Question; r: CheckResult }>>();
+  for (const item of answered(before)) {
+    const key = questionKey(item.q.text);
+    const list = pending.get(key) ?? [];
+    list.push(item);
+    pending.set(key, list);
+  }
+
+  const questions: QuestionDiff[] = [];
+  for (const item of answered(after)) {
+    const prev = pending.get(questionKey(item.q.text))?.shift();
+    questions.push(diffQuestion(item.q.text, prev, item));
+  }
+  for (const list of pending.values())
+    for (const item of list)
+      questions.push(diffQuestion(item.q.text, item, undefined));
+
+  const transitions: Record<string, number> = {};
+  for (const d of questions) {
+    if (d.change !== "flipped") continue;
+    const key = `${d.before!.status} → ${d.after!.status}`;
+    transitions[key] = (transitions[key] ?? 0) + 1;
+  }
+  const count = (c: QuestionDiff["change"]) =>
+    questions.filter((d) => d.change === c).length;
+
+  const allBefore = new Set(before.results.flatMap((r) => [...citedFiles(r)]));
+  const allAfter = new Set(after.results.flatMap((r) => [...citedFiles(r)]));
+
+  return {
+    before: { name: before.name, questionCount: before.questions.length },
+    after: { name: after.name, questionCount: after.questions.length },
+    summary: {
+      matched: questions.filter((d) => d.before && d.after).length,
+      flipped: count("flipped"),
+      evidenceChanged: count("evidence"),
+      added: count("added"),
+      removed: count("removed"),
+      transitions,
+    },
+    newDocuments: minus(allAfter, allBefore),
+    droppedDocuments: minus(allBefore, allAfter),
+    questions,
+  };
+}
@@ -0,0 +1,136 @@
+import type { ConfidenceFactors, Evidence, Status } from "../types";
+
+// Confidence of an automated verdict, 0..1. The raw score is a weighted
+// mean of the model's self-reported confidence, the similarity of the best
+// retrieved passage, and how well the citations verified against the page
+// index; Not Met verdicts cite nothing, so they rest on the first two alone.
+// A Calibration fitted on gold-labelled questions (`npm run eval --
+// --fit-calibration`) maps the raw score to the probability that the
+// verdict is correct. Without one the raw score only ranks verdicts.
+
+const WEIGHTS: Record<keyof ConfidenceFactors, number> = {
+  model: 0.5,
+  retrieval: 0.2,
+  citations: 0.3,
+};
+
+const DEFAULT_SELF_REPORT = 0.5; // model gave no confidence
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Share of each snippet found on its page, averaged; uncited verdicts get 0
+function citationFactor(citations: Evidence[]): number {
+  if (!citations.length) return 0;
+  const sum = citations.reduce(
+    (s, c) =>
+      s +
+      (c.verification?.status === "unverified"
+        ? 0
+        : (c.verification?.score ?? 0)),
+    0
+  );
+  return sum / citations.length;
+}
+
+export function confidenceFactors(opts: {
+  status: Exclude<Status, "Undetermined">;
+  selfReport?: number;
+  topSimilarity?: number; // cosine similarity of the best vector hit
+  citations: Evidence[];
+}): ConfidenceFactors {
+  return {
+    model: clamp01(opts.selfReport ?? DEFAULT_SELF_REPORT),
+    retrieval:
+      opts.topSimilarity !== undefined
+        ? clamp01(opts.topSimilarity)
+        : undefined,
+    citations:
+      opts.status !== "Not Met" ? citationFactor(opts.citations) : undefined,
+  };
+}
+
+export function combineConfidence(f: ConfidenceFactors): number {
+  let sum = 0;
+  let weight = 0;
+  for (const key of Object.keys(WEIGHTS) as Array<keyof ConfidenceFactors>) {
+    const v = f[key];
+    if (v === undefined) continue;
+    sum += WEIGHTS[key] * v;
+    weight += WEIGHTS[key];
+  }
+  return weight ? Math.round((sum / weight) * 100) / 100 : 0;
+}
+
+// Platt scaling: P(correct) = 1 / (1 + exp(-(a * score + b)))
+export type Calibration = {
+  a: number;
+  b: number;
+  cases: number; // labelled verdicts it was fitted on
+  fittedAt: string;
+};
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+export function calibrate(score: number, cal: Calibration | null): number {
+  if (!cal) return score;
+  return Math.round(sigmoid(cal.a * score + cal.b) * 100) / 100;
+}
+
+// Fits a and b by Newton's method on the cross-entropy, with Platt's
+// smoothed targets so a small or separable gold set does not produce
+// 0 or 1 probabilities
+export function fitCalibration(
+  samples: Array<{ score: number; correct: boolean }>
+): Calibration {
+  const pos = samples.filter((s) => s.correct).length;
+  const neg = samples.length - pos;
+  const hi = (pos + 1) / (pos + 2);
+  const lo = 1 / (neg + 2);
+  let a = 0;
+  let b = Math.log((pos + 1) / (neg + 1));
+  for (let iter = 0; iter < 100; iter++) {
+    let [ga, gb, haa, hab, hbb] = [0, 0, 1e-9, 0, 1e-9];
+    for (const { score, correct } of samples) {
+      const p = sigmoid(a * score + b);
+      const d = p - (correct ? hi : lo);
+      const w = p * (1 - p);
+      ga += d * score;
+      gb += d;
+      haa += w * score * score;
+      hab += w * score;
+      hbb += w;
+    }
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    a -= da;
+    b -= db;
+    if (Math.abs(da) + Math.abs(db) < 1e-9) break;
+  }
+  return {
+    a,
+    b,
+    cases: samples.length,
+    fittedAt: new Date().toISOString(),
+  };
+}
+
+// A requirement is only as certain as its weakest decided element
+export function requirementConfidence(
+  elements: Array<{ status: Status; confidence?: number }>
+): number | undefined {
+  const decided = elements
+    .filter((e) => e.status !== "Undetermined" && e.confidence !== undefined)
+    .map((e) => e.confidence!);
+  return decided.length ? Math.min(...decided) : undefined;
+}
+
+// Bands used to filter and colour results
+export type ConfidenceBand = "low" | "medium" | "high";
+
+export function confidenceBand(confidence: number): ConfidenceBand {
+  if (confidence < 0.5) return "low";
+  if (confidence < 0.75) return "medium";
+  return "high";
+}
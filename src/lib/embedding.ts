@@ -1,28 +1,221 @@
 import fs from "node:fs";
 import path from "node:path";
+import type { ChunkOptions } from "./chunker";
 
+// One vector per chunk of a page. Indexes built before chunking have no
+// chunk/start/end and cover the whole page.
 export type EmbItem = {
   id: number;
   fileName: string;
   relativePath: string;
   page: number;
-  vector: number[];
+  chunk?: number; // chunk number within the page, from 0
+  start?: number; // char offsets of the chunk in the page text
+  end?: number;
+  textHash?: string; // sha1 of the page text, for incremental rebuilds
+  vector?: number[]; // only in the legacy JSON index; see EmbIndex.vectors
+};
+
+export type VectorDType = "float32" | "int8";
+
+// Row-major matrix of L2-normalized vectors, one row per item. int8 rows
+// are stored as round(v / scale) with a per-row scale.
+export type VectorMatrix = {
+  dtype: VectorDType;
+  data: Float32Array | Int8Array;
+  scales?: Float32Array;
 };
 
 export type EmbIndex = {
   model: string;
   dim: number;
+  builtAt?: string;
+  chunking?: ChunkOptions;
   items: EmbItem[];
+  vectors: VectorMatrix;
 };
 
+// Sidecar written next to the binary matrix
+export type EmbMeta = {
+  model: string;
+  dim: number;
+  count: number;
+  dtype: VectorDType;
+  builtAt?: string;
+  chunking?: ChunkOptions;
+  scales?: number[]; // int8 only
+  items: EmbItem[];
+};
+
+const DIR = path.join(process.cwd(), "public");
+export const VECTORS_BIN = path.join(DIR, "policies-vectors.bin");
+export const VECTORS_META = path.join(DIR, "policies-vectors.json");
+const LEGACY_JSON = path.join(DIR, "policies-embeddings.json");
+
 let cache: EmbIndex | null = null;
 
+// Prefers the binary store; falls back to the legacy policies-embeddings.json
 export function getEmbIndex(): EmbIndex {
   if (cache) return cache;
-  const p = path.join(process.cwd(), "public", "policies-embeddings.json");
-  const raw = fs.readFileSync(p, "utf8");
-  cache = JSON.parse(raw) as EmbIndex;
-  return cache!;
+  cache = fs.existsSync(VECTORS_META) ? loadBinary() : loadLegacyJson();
+  console.log(
+    `✅ Loaded ${cache.items.length} vectors (${cache.vectors.dtype}, dim ${cache.dim})`
+  );
+  return cache;
+}
+
+function loadBinary(): EmbIndex {
+  const meta = JSON.parse(fs.readFileSync(VECTORS_META, "utf8")) as EmbMeta;
+  const buf = fs.readFileSync(VECTORS_BIN);
+  // Copy into a fresh ArrayBuffer so the typed array view is aligned
+  const ab = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength);
+  const size = meta.count * meta.dim;
+  const data =
+    meta.dtype === "int8"
+      ? new Int8Array(ab, 0, size)
+      : new Float32Array(ab, 0, size);
+  return {
+    model: meta.model,
+    dim: meta.dim,
+    builtAt: meta.builtAt,
+    chunking: meta.chunking,
+    items: meta.items,
+    vectors: {
+      dtype: meta.dtype,
+      data,
+      scales: meta.scales ? Float32Array.from(meta.scales) : undefined,
+    },
+  };
+}
+
+function loadLegacyJson(): EmbIndex {
+  const raw = JSON.parse(fs.readFileSync(LEGACY_JSON, "utf8")) as Omit<
+    EmbIndex,
+    "vectors"
+  >;
+  const dim = raw.dim || raw.items[0]?.vector?.length || 0;
+  const data = new Float32Array(raw.items.length * dim);
+  raw.items.forEach((it, i) => {
+    data.set(normalize(Float32Array.from(it.vector ?? [])), i * dim);
+    delete it.vector;
+  });
+  return { ...raw, dim, vectors: { dtype: "float32", data } };
+}
+
+export function normalize(v: Float32Array): Float32Array {
+  let n = 0;
+  for (let i = 0; i < v.length; i++) n += v[i] * v[i];
+  n = Math.sqrt(n) || 1;
+  const out = new Float32Array(v.length);
+  for (let i = 0; i < v.length; i++) out[i] = v[i] / n;
+  return out;
+}
+
+// Decode one stored row back to floats (dequantized for int8)
+export function rowVector(index: EmbIndex, r: number): Float32Array {
+  const { dim } = index;
+  const { data, scales } = index.vectors;
+  const out = new Float32Array(dim);
+  const scale = scales ? scales[r] : 1;
+  for (let j = 0; j < dim; j++) out[j] = data[r * dim + j] * scale;
+  return out;
+}
+
+// Encode normalized rows for writing. Typed arrays use the platform byte
+// order, which is little-endian everywhere we build or serve.
+export function encodeVectors(
+  rows: Float32Array[],
+  dtype: VectorDType
+): { bytes: Uint8Array; scales?: number[] } {
+  const dim = rows[0]?.length ?? 0;
+  if (dtype === "float32") {
+    const data = new Float32Array(rows.length * dim);
+    rows.forEach((r, i) => data.set(normalize(r), i * dim));
+    return { bytes: new Uint8Array(data.buffer) };
+  }
+  const data = new Int8Array(rows.length * dim);
+  const scales: number[] = [];
+  rows.forEach((r, i) => {
+    const v = normalize(r);
+    let max = 0;
+    for (let j = 0; j < dim; j++) max = Math.max(max, Math.abs(v[j]));
+    const scale = max / 127 || 1;
+    for (let j = 0; j < dim; j++) data[i * dim + j] = Math.round(v[j] / scale);
+    scales.push(scale);
+  });
+  return { bytes: new Uint8Array(data.buffer), scales };
+}
+
+export function writeEmbIndex(
+  meta: Omit<EmbMeta, "count" | "scales" | "dim">,
+  rows: Float32Array[]
+): void {
+  const { bytes, scales } = encodeVectors(rows, meta.dtype);
+  const full: EmbMeta = {
+    ...meta,
+    dim: rows[0]?.length ?? 0,
+    count: rows.length,
+    scales,
+  };
+  fs.writeFileSync(VECTORS_BIN, bytes);
+  fs.writeFileSync(VECTORS_META, JSON.stringify(full));
+}
+
+// Top-k rows by cosine similarity. Rows are pre-normalized, so this is a
+// dot product against the normalized query plus a size-k min-heap. Rows
+// rejected by `filter` are skipped.
+export function searchEmbIndex(
+  index: EmbIndex,
+  query: Float32Array,
+  k: number,
+  filter?: (item: EmbItem) => boolean
+): Array<{ idx: number; score: number }> {
+  const { dim } = index;
+  const { data, scales } = index.vectors;
+  const q = normalize(query);
+  const n = index.items.length;
+  const heap: Array<{ idx: number; score: number }> = [];
+
+  for (let r = 0; r < n; r++) {
+    if (filter && !filter(index.items[r])) continue;
+    let dot = 0;
+    const off = r * dim;
+    for (let j = 0; j < dim; j++) dot += q[j] * data[off + j];
+    const score = scales ? dot * scales[r] : dot;
+
+    if (heap.length < k) {
+      heap.push({ idx: r, score });
+      siftUp(heap, heap.length - 1);
+    } else if (k > 0 && score > heap[0].score) {
+      heap[0] = { idx: r, score };
+      siftDown(heap, 0);
+    }
+  }
+  return heap.sort((a, b) => b.score - a.score);
+}
+
+type HeapItem = { score: number };
+
+function siftUp(h: HeapItem[], i: number) {
+  while (i > 0) {
+    const p = (i - 1) >> 1;
+    if (h[p].score <= h[i].score) break;
+    [h[p], h[i]] = [h[i], h[p]];
+    i = p;
+  }
+}
+
+function siftDown(h: HeapItem[], i: number) {
+  for (;;) {
+    const l = 2 * i + 1;
+    const r = l + 1;
+    let m = i;
+    if (l < h.length && h[l].score < h[m].score) m = l;
+    if (r < h.length && h[r].score < h[m].score) m = r;
+    if (m === i) return;
+    [h[m], h[i]] = [h[i], h[m]];
+    i = m;
+  }
 }
 
 export function cosineSim(a: Float32Array, b: Float32Array): number {
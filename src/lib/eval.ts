@@ -0,0 +1,373 @@
+import {
+  checkQuestion,
+  type CheckContext,
+  type RetrievalOverrides,
+} from "./checker";
+import { calibrate, fitCalibration, type Calibration } from "./confidence";
+import { pMap } from "./pmap";
+import { createFakeProvider, type Provider } from "./providers";
+import type { CheckResult, Status } from "../types";
+
+// Offline evaluation of the checker against gold-labelled questions (see
+// scripts/eval-retrieval.mjs). Each case runs through checkQuestion with
+// debug hits on, so retrieval, citations and verdicts are scored from the
+// same pipeline /api/check uses.
+
+type Verdict = Exclude<Status, "Undetermined">;
+
+const VERDICTS: Verdict[] = ["Met", "Partially Met", "Not Met"];
+
+export type EvalLocation = { fileName: string; page: number };
+
+export type EvalCase = {
+  id: string;
+  text: string;
+  expectedStatus?: Verdict;
+  expected?: EvalLocation[]; // pages holding the evidence
+};
+
+// A named set of retrieval settings to compare
+export type EvalConfig = { name: string; retrieval?: RetrievalOverrides };
+
+export class EvalFileError extends Error {}
+
+// ========== Input files ==========
+
+// `[case, ...]` or `{ "questions": [case, ...] }`
+export function parseEvalCases(raw: unknown): EvalCase[] {
+  const list = Array.isArray(raw)
+    ? raw
+    : (raw as { questions?: unknown } | null)?.questions;
+  if (!Array.isArray(list) || list.length === 0)
+    throw new EvalFileError("expected a non-empty list of questions");
+
+  return list.map((c, i): EvalCase => {
+    const where = `question ${i + 1}`;
+    if (!c || typeof c.text !== "string" || !c.text.trim())
+      throw new EvalFileError(`${where}: missing "text"`);
+    let expectedStatus: Verdict | undefined;
+    if (c.expectedStatus !== undefined) {
+      expectedStatus = VERDICTS.find((v) => v === c.expectedStatus);
+      if (!expectedStatus)
+        throw new EvalFileError(
+          `${where}: expectedStatus must be one of ${VERDICTS.join(", ")}`
+        );
+    }
+    const expected = c.expected;
+    if (
+      expected !== undefined &&
+      (!Array.isArray(expected) ||
+        !expected.every(
+          (l: unknown): l is EvalLocation =>
+            !!l &&
+            typeof (l as EvalLocation).fileName === "string" &&
+            Number.isInteger((l as EvalLocation).page)
+        ))
+    )
+      throw new EvalFileError(
+        `${where}: "expected" must be a list of { fileName, page }`
+      );
+    return {
+      id: typeof c.id === "string" ? c.id : `q_${i + 1}`,
+      text: c.text,
+      expectedStatus,
+      expected,
+    };
+  });
+}
+
+// `[config, ...]` or `{ "configs": [config, ...] }`
+export function parseEvalConfigs(raw: unknown): EvalConfig[] {
+  const list = Array.isArray(raw)
+    ? raw
+    : (raw as { configs?: unknown } | null)?.configs;
+  if (!Array.isArray(list) || list.length === 0)
+    throw new EvalFileError("expected a non-empty list of configs");
+  return list.map((c, i) => {
+    if (!c || typeof c !== "object")
+      throw new EvalFileError(`config ${i + 1}: expected an object`);
+    return {
+      name: typeof c.name === "string" ? c.name : `config ${i + 1}`,
+      retrieval: c.retrieval,
+    };
+  });
+}
+
+// ========== Running ==========
+
+export type CaseOutcome = {
+  id: string;
+  expectedStatus?: Verdict;
+  status: Status;
+  reason?: string;
+  confidence?: number;
+  // Best fused rank (1-based) of each expected page over all elements,
+  // null when it was not retrieved
+  ranks: Array<number | null>;
+  citations: Array<EvalLocation & { correct: boolean; verified: boolean }>;
+};
+
+function samePage(a: EvalLocation, b: EvalLocation): boolean {
+  return (
+    a.page === b.page && a.fileName.toLowerCase() === b.fileName.toLowerCase()
+  );
+}
+
+export function scoreCase(c: EvalCase, result: CheckResult): CaseOutcome {
+  const expected = c.expected ?? [];
+  // Chunks of a page share its fused rank, so rank pages, not chunks
+  const lists = (result.elements ?? []).map((e) =>
+    (e.retrieval ?? []).filter(
+      (h, i, all) => all.findIndex((o) => samePage(o, h)) === i
+    )
+  );
+  const ranks = expected.map((loc) => {
+    let best: number | null = null;
+    for (const hits of lists) {
+      const i = hits.findIndex((h) => samePage(h, loc));
+      if (i >= 0 && (best === null || i + 1 < best)) best = i + 1;
+    }
+    return best;
+  });
+  const citations = (result.citations ?? []).map((e) => ({
+    fileName: e.fileName,
+    page: e.page,
+    correct: expected.some((loc) => samePage(e, loc)),
+    verified: e.verification?.status !== "unverified",
+  }));
+  return {
+    id: c.id,
+    expectedStatus: c.expectedStatus,
+    status: result.status,
+    reason: result.reason,
+    confidence: result.confidence,
+    ranks,
+    citations,
+  };
+}
+
+// The context must be loaded with debug on and at least max(k) debug hits
+export async function runEval(
+  ctx: CheckContext,
+  cases: EvalCase[],
+  concurrency: number
+): Promise<CaseOutcome[]> {
+  return pMap(cases, concurrency, async (c) =>
+    scoreCase(c, await checkQuestion(ctx, { id: c.id, text: c.text }))
+  );
+}
+
+// ========== Metrics ==========
+
+export type EvalMetrics = {
+  cases: number;
+  recallAt: Record<number, number | null>; // mean share of expected pages in the top k
+  citationAccuracy: number | null; // citations on an expected page
+  citationsVerified: number | null; // citations found on the cited page
+  verdictAccuracy: number | null;
+  verdicts: Record<
+    Verdict,
+    { precision: number | null; recall: number | null; support: number }
+  >;
+  // Expected calibration error: over 5 confidence bins, the gap between
+  // mean confidence and verdict accuracy, weighted by bin size
+  calibrationError: number | null;
+  undetermined: number;
+};
+
+const CALIBRATION_BINS = 5;
+
+function calibrationError(outcomes: CaseOutcome[]): number | null {
+  const scored = outcomes.filter(
+    (o) => o.expectedStatus && o.confidence !== undefined
+  );
+  if (!scored.length) return null;
+  let gap = 0;
+  for (let b = 0; b < CALIBRATION_BINS; b++) {
+    const bin = scored.filter(
+      (o) =>
+        Math.min(
+          CALIBRATION_BINS - 1,
+          Math.floor(o.confidence! * CALIBRATION_BINS)
+        ) === b
+    );
+    if (!bin.length) continue;
+    const conf = bin.reduce((s, o) => s + o.confidence!, 0) / bin.length;
+    const acc =
+      bin.filter((o) => o.status === o.expectedStatus).length / bin.length;
+    gap += (bin.length / scored.length) * Math.abs(conf - acc);
+  }
+  return gap;
+}
+
+// Fewer labelled verdicts than this give a fit too noisy to publish
+export const MIN_CALIBRATION_CASES = 20;
+
+// Fits confidence calibration on the labelled, decided verdicts of a run
+// whose context had calibration off, so confidences are raw scores. Also
+// returns the calibration error before and after (on the same cases).
+export function fitOutcomes(outcomes: CaseOutcome[]): {
+  calibration: Calibration;
+  before: number | null;
+  after: number | null;
+} {
+  const labelled = outcomes.filter(
+    (o) => o.expectedStatus && o.confidence !== undefined
+  );
+  if (labelled.length < MIN_CALIBRATION_CASES)
+    throw new EvalFileError(
+      `calibration needs at least ${MIN_CALIBRATION_CASES} questions with an expectedStatus and a decided verdict, got ${labelled.length}`
+    );
+  const calibration = fitCalibration(
+    labelled.map((o) => ({
+      score: o.confidence!,
+      correct: o.status === o.expectedStatus,
+    }))
+  );
+  return {
+    calibration,
+    before: calibrationError(labelled),
+    after: calibrationError(
+      labelled.map((o) => ({
+        ...o,
+        confidence: calibrate(o.confidence!, calibration),
+      }))
+    ),
+  };
+}
+
+function ratio(n: number, d: number): number | null {
+  return d ? n / d : null;
+}
+
+export function summarize(outcomes: CaseOutcome[], ks: number[]): EvalMetrics {
+  const withPages = outcomes.filter((o) => o.ranks.length);
+  const recallAt: Record<number, number | null> = {};
+  for (const k of ks) {
+    const sum = withPages.reduce(
+      (s, o) =>
+        s + o.ranks.filter((r) => r !== null && r <= k).length / o.ranks.length,
+      0
+    );
+    recallAt[k] = ratio(sum, withPages.length);
+  }
+
+  // Citation accuracy only counts cases with labelled pages
+  const cited = withPages.flatMap((o) => o.citations);
+  const all = outcomes.flatMap((o) => o.citations);
+
+  const labelled = outcomes.filter((o) => o.expectedStatus);
+  const verdicts = Object.fromEntries(
+    VERDICTS.map((v) => {
+      const predicted = labelled.filter((o) => o.status === v);
+      const actual = labelled.filter((o) => o.expectedStatus === v);
+      const tp = predicted.filter((o) => o.expectedStatus === v).length;
+      return [
+        v,
+        {
+          precision: ratio(tp, predicted.length),
+          recall: ratio(tp, actual.length),
+          support: actual.length,
+        },
+      ];
+    })
+  ) as EvalMetrics["verdicts"];
+
+  return {
+    cases: outcomes.length,
+    recallAt,
+    citationAccuracy: ratio(
+      cited.filter((c) => c.correct).length,
+      cited.length
+    ),
+    citationsVerified: ratio(all.filter((c) => c.verified).length, all.length),
+    verdictAccuracy: ratio(
+      labelled.filter((o) => o.status === o.expectedStatus).length,
+      labelled.length
+    ),
+    verdicts,
+    calibrationError: calibrationError(labelled),
+    undetermined: outcomes.filter((o) => o.status === "Undetermined").length,
+  };
+}
+
+// Plain-text table, one column per config
+export function formatComparison(
+  runs: Array<{ name: string; metrics: EvalMetrics }>,
+  ks: number[]
+): string {
+  const pct = (v: number | null) =>
+    v === null ? "-" : `${(v * 100).toFixed(1)}%`;
+  const rows: Array<[string, (m: EvalMetrics) => string]> = [
+    ...ks.map((k): [string, (m: EvalMetrics) => string] => [
+      `recall@${k}`,
+      (m) => pct(m.recallAt[k]),
+    ]),
+    ["citation accuracy", (m) => pct(m.citationAccuracy)],
+    ["citations verified", (m) => pct(m.citationsVerified)],
+    ["verdict accuracy", (m) => pct(m.verdictAccuracy)],
+    ...VERDICTS.flatMap((v): Array<[string, (m: EvalMetrics) => string]> => [
+      [`${v} precision`, (m) => pct(m.verdicts[v].precision)],
+      [`${v} recall`, (m) => pct(m.verdicts[v].recall)],
+    ]),
+    ["calibration error", (m) => pct(m.calibrationError)],
+    ["undetermined", (m) => `${m.undetermined}/${m.cases}`],
+  ];
+
+  const table = [
+    ["", ...runs.map((r) => r.name)],
+    ...rows.map(([label, cell]) => [
+      label,
+      ...runs.map((r) => cell(r.metrics)),
+    ]),
+  ];
+  const widths = table[0].map((_, i) =>
+    Math.max(...table.map((row) => row[i].length))
+  );
+  return table
+    .map((row) =>
+      row
+        .map((cell, i) =>
+          i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+        )
+        .join("  ")
+    )
+    .join("\n");
+}
+
+// ========== Offline providers ==========
+
+// Stand-in for the generation model: one element per requirement, and
+// "Met" citing the first sentence of the top packed excerpt. Verdict
+// metrics mean nothing with it; retrieval and packing order still do.
+// Embeddings come from `embedder` (e.g. one replaying the LLM cache), else
+// they are fake vectors of the index dimension.
+export function createStubProvider(opts: {
+  dim: number;
+  embedder?: Provider;
+}): Provider {
+  const fake = createFakeProvider({ dim: opts.dim, respond: stubRespond });
+  const embedder = opts.embedder ?? fake;
+  return {
+    ...fake,
+    name: "stub",
+    model: "stub",
+    embedModel: embedder.embedModel,
+    embedQuery: embedder.embedQuery,
+    embedDocument: embedder.embedDocument,
+  };
+}
+
+function stubRespond(prompt: string): string {
+  if (prompt.includes('{ "elements": string[] }')) {
+    const requirement = prompt.split("REQUIREMENT:\n")[1]?.trim() ?? "";
+    return JSON.stringify({ elements: [requirement] });
+  }
+  const top = prompt.match(/^\[1\] (.+) p\.(\d+)\n"""([\s\S]*?)"""/m);
+  if (!top) return JSON.stringify({ status: "Not Met", citations: [] });
+  const snippet = top[3].split(/(?<=[.?!])\s+/)[0];
+  return JSON.stringify({
+    status: "Met",
+    citations: [{ snippet, fileName: top[1], page: Number(top[2]) }],
+  });
+}
@@ -0,0 +1,325 @@
+import ExcelJS from "exceljs";
+import { reviewedResult } from "./review";
+import type { AuditRun, CheckResult, Evidence, Status } from "../types";
+
+// Run exports (CSV, XLSX, printable HTML), all built from the same rows so
+// the formats agree with each other and with the UI. Statuses and evidence
+// are as reviewed; the automated verdict is kept in its own column.
+
+export type ExportFormat = "csv" | "xlsx" | "html";
+
+const STATUSES: Status[] = ["Met", "Partially Met", "Not Met", "Undetermined"];
+
+// ARGB fills for the XLSX status column
+const STATUS_FILLS: Record<Status, string> = {
+  Met: "FFC6EFCE",
+  "Partially Met": "FFFFEB9C",
+  "Not Met": "FFFFC7CE",
+  Undetermined: "FFE7E6E6",
+};
+
+// One row per question. Multiple citations share a cell, one per line, in
+// the same order across the snippet/file/page columns.
+export type ExportRow = {
+  number: number;
+  questionId: string;
+  questionNumber: string; // as printed in the questionnaire
+  section: string;
+  questionPage: number | "";
+  references: string[];
+  question: string;
+  status: Status | "Not checked";
+  automatedStatus: Status | "";
+  confidence: number | ""; // of the automated verdict, 0..1
+  confidenceCalibrated: boolean;
+  rationale: string;
+  review: string; // "Accepted by ...", "Overridden by ...: justification"
+  reason: string;
+  snippets: string[];
+  files: string[];
+  pages: number[];
+  policyIds: string[];
+  effectiveDates: string[];
+  verification: string[];
+};
+
+const COLUMNS: Array<{ header: string; width: number }> = [
+  { header: "#", width: 6 },
+  { header: "Question no.", width: 10 },
+  { header: "Section", width: 24 },
+  { header: "Question", width: 60 },
+  { header: "Questionnaire page", width: 12 },
+  { header: "References", width: 24 },
+  { header: "Status", width: 16 },
+  { header: "Automated status", width: 16 },
+  { header: "Confidence score", width: 12 },
+  { header: "Rationale", width: 60 },
+  { header: "Review", width: 40 },
+  { header: "Reason", width: 20 },
+  { header: "Evidence snippet", width: 70 },
+  { header: "Policy file", width: 40 },
+  { header: "Page", width: 8 },
+  { header: "Policy ID", width: 12 },
+  { header: "Effective date", width: 14 },
+  { header: "Verification", width: 14 },
+];
+
+// 1-based, for the XLSX status fill
+const STATUS_COLUMN = COLUMNS.findIndex((c) => c.header === "Status") + 1;
+
+export function exportRows(run: AuditRun): ExportRow[] {
+  const byId = new Map<string, CheckResult>(
+    run.results.map((r) => [r.questionId, r])
+  );
+  return run.questions.map((q, i) => {
+    const auto = byId.get(q.id);
+    const review = run.reviews[q.id];
+    const r = auto && reviewedResult(auto, review);
+    const cites: Evidence[] = r?.citations ?? [];
+    return {
+      number: i + 1,
+      questionId: q.id,
+      questionNumber: q.number ?? "",
+      section: q.section ?? "",
+      questionPage: q.page ?? "",
+      references: q.references ?? [],
+      question: q.text,
+      status: r?.status ?? "Not checked",
+      automatedStatus: auto?.status ?? "",
+      confidence: auto?.confidence ?? "",
+      confidenceCalibrated: auto?.confidenceCalibrated ?? false,
+      rationale: auto?.rationale ?? "",
+      review:
+        review?.state === "accepted"
+          ? `Accepted by ${review.reviewedBy} (${review.reviewedAt})`
+          : review?.state === "overridden"
+            ? `Overridden by ${review.reviewedBy} (${review.reviewedAt}): ${review.justification}`
+            : "Pending",
+      reason: r?.reason ?? "",
+      snippets: cites.map((c) => c.snippet),
+      files: cites.map((c) => c.fileName),
+      pages: cites.map((c) => c.page),
+      policyIds: cites.map((c) => c.policyId ?? ""),
+      effectiveDates: cites.map((c) => c.effectiveDate ?? ""),
+      verification: cites.map((c) => c.verification?.status ?? ""),
+    };
+  });
+}
+
+// Questionnaire text, snippets and reviewer notes are untrusted: a cell
+// starting with one of these is run as a formula by Excel and Sheets, so
+// it gets a leading quote (CSV and XLSX; HTML is escaped instead)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function safeCell(v: string | number): string | number {
+  return typeof v === "string" && FORMULA_START.test(v) ? `'${v}` : v;
+}
+
+function cells(row: ExportRow): Array<string | number> {
+  return [
+    row.number,
+    row.questionNumber,
+    row.section,
+    row.question,
+    row.questionPage,
+    row.references.join("\n"),
+    row.status,
+    row.automatedStatus,
+    row.confidence,
+    row.rationale,
+    row.review,
+    row.reason,
+    row.snippets.join("\n"),
+    row.files.join("\n"),
+    row.pages.length === 1 ? row.pages[0] : row.pages.join("\n"),
+    row.policyIds.join("\n"),
+    row.effectiveDates.join("\n"),
+    row.verification.join("\n"),
+  ].map(safeCell);
+}
+
+export function statusCounts(run: AuditRun): Record<Status, number> {
+  const counts = Object.fromEntries(STATUSES.map((s) => [s, 0])) as Record<
+    Status,
+    number
+  >;
+  for (const r of run.results)
+    counts[reviewedResult(r, run.reviews[r.questionId]).status]++;
+  return counts;
+}
+
+// ========== CSV ==========
+function csvField(v: string | number): string {
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(run: AuditRun): string {
+  const lines = [COLUMNS.map((c) => c.header), ...exportRows(run).map(cells)];
+  // BOM so Excel opens UTF-8 correctly
+  return "\uFEFF" + lines.map((l) => l.map(csvField).join(",")).join("\r\n");
+}
+
+// ========== XLSX ==========
+export async function toXlsx(run: AuditRun): Promise<Buffer> {
+  const wb = new ExcelJS.Workbook();
+  wb.creator = "Readily";
+  wb.created = new Date(run.createdAt);
+
+  const sheet = wb.addWorksheet("Results", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = COLUMNS.map((c) => ({ header: c.header, width: c.width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.autoFilter = { from: "A1", to: { row: 1, column: COLUMNS.length } };
+
+  for (const row of exportRows(run)) {
+    const added = sheet.addRow(cells(row));
+    added.alignment = { vertical: "top", wrapText: true };
+    if (row.status !== "Not checked") {
+      added.getCell(STATUS_COLUMN).fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: STATUS_FILLS[row.status] },
+      };
+    }
+  }
+
+  const summary = wb.addWorksheet("Summary");
+  summary.columns = [{ width: 24 }, { width: 60 }];
+  for (const [k, v] of summaryEntries(run)) summary.addRow([k, v]);
+  summary.getColumn(1).font = { bold: true };
+
+  return Buffer.from(await wb.xlsx.writeBuffer());
+}
+
+function summaryEntries(run: AuditRun): Array<[string, string | number]> {
+  const counts = statusCounts(run);
+  return [
+    ["Run", run.name],
+    ["Questionnaire", run.questionnaireName ?? ""],
+    ["Questionnaire sha256", run.questionnaireHash ?? ""],
+    ["Run status", run.status],
+    ["Started", run.createdAt],
+    ["Finished", run.finishedAt ?? ""],
+    ["Policies as of", run.asOf ?? "latest"],
+    ["Model", `${run.provider} / ${run.model}`],
+    ["Embedding model", run.corpus.embeddingModel],
+    ["Embeddings built", run.corpus.embeddingsBuiltAt ?? ""],
+    ["Policies ingested", run.corpus.policiesIngestedAt ?? ""],
+    ["Questions", run.questionCount],
+    ["Checked", run.resultCount],
+    ["Reviewed", run.reviewedCount],
+    [
+      "Signed off",
+      run.signedOffAt ? `${run.signedOffBy} (${run.signedOffAt})` : "No",
+    ],
+    ...STATUSES.map((s): [string, number] => [s, counts[s]]),
+  ];
+}
+
+// ========== Printable HTML ==========
+function esc(s: string | number): string {
+  return String(s)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const STATUS_CLASS: Record<ExportRow["status"], string> = {
+  Met: "met",
+  "Partially Met": "partial",
+  "Not Met": "not-met",
+  Undetermined: "undetermined",
+  "Not checked": "undetermined",
+};
+
+const REPORT_CSS = `
+  @page { size: A4; margin: 16mm; }
+  body { font: 11px/1.45 system-ui, sans-serif; color: #111; margin: 0; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 0 0 8px; }
+  .summary { break-after: page; }
+  .summary table { border-collapse: collapse; margin: 12px 0; }
+  .summary td { padding: 3px 12px 3px 0; vertical-align: top; }
+  .summary td:first-child { font-weight: 600; color: #444; }
+  .q { border-top: 1px solid #ccc; padding: 8px 0; break-inside: avoid; }
+  .q-head { display: flex; gap: 12px; justify-content: space-between; }
+  .status { font-weight: 600; white-space: nowrap; padding: 1px 6px; border-radius: 4px; }
+  .met { background: #c6efce; } .partial { background: #ffeb9c; }
+  .not-met { background: #ffc7ce; } .undetermined { background: #e7e6e6; }
+  blockquote { margin: 4px 0 0 12px; font-style: italic; }
+  .cite { color: #555; margin-left: 12px; }
+  @media screen { body { max-width: 800px; margin: 24px auto; } }
+`;
+
+export function toHtmlReport(run: AuditRun): string {
+  const rows = exportRows(run);
+  const summary = summaryEntries(run)
+    .map(([k, v]) => `<tr><td>${esc(k)}</td><td>${esc(v)}</td></tr>`)
+    .join("");
+
+  const questions = rows
+    .map((r) => {
+      const cites = r.snippets
+        .map(
+          (s, i) =>
+            `<blockquote>&ldquo;${esc(s)}&rdquo;</blockquote>` +
+            `<div class="cite">${esc(r.files[i])}, p. ${r.pages[i]}` +
+            (r.policyIds[i] ? ` &middot; ${esc(r.policyIds[i])}` : "") +
+            (r.effectiveDates[i]
+              ? ` (effective ${esc(r.effectiveDates[i])})`
+              : "") +
+            `</div>`
+        )
+        .join("");
+      const source = [
+        r.questionPage ? `Questionnaire p. ${r.questionPage}` : "",
+        r.references.map(esc).join("; "),
+      ]
+        .filter(Boolean)
+        .join(" &middot; ");
+      return `
+<div class="q">
+  <div class="q-head">
+    <div>
+      ${r.section ? `<div class="cite">${esc(r.section)}</div>` : ""}
+      <strong>${esc(r.questionNumber || r.number)}.</strong> ${esc(r.question)}
+      ${source ? `<div class="cite">${source}</div>` : ""}
+    </div>
+    <span class="status ${STATUS_CLASS[r.status]}">${esc(r.status)}</span>
+  </div>
+  ${r.reason ? `<div class="cite">Reason: ${esc(r.reason)}</div>` : ""}
+  ${r.rationale ? `<div class="cite">Rationale: ${esc(r.rationale)}</div>` : ""}
+  ${r.confidence !== "" ? `<div class="cite">Confidence score: ${r.confidence.toFixed(2)} (${r.confidenceCalibrated ? "calibrated probability of a correct verdict" : "uncalibrated"})</div>` : ""}
+  <div class="cite">Review: ${esc(r.review)}${
+    r.automatedStatus && r.automatedStatus !== r.status
+      ? ` (automated: ${esc(r.automatedStatus)})`
+      : ""
+  }</div>
+  ${cites}
+</div>`;
+    })
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(run.name)} – compliance report</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<section class="summary">
+  <h1>Compliance report</h1>
+  <div>${esc(run.name)}</div>
+  <table>${summary}</table>
+</section>
+<section>
+  <h2>Results</h2>
+  ${questions}
+</section>
+</body>
+</html>`;
+}
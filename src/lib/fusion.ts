@@ -0,0 +1,89 @@
+import type { RetrievalHit } from "../types";
+
+// The retrieval knobs fusion reads (a subset of RetrievalConfig)
+type FusionConfig = {
+  topK: number;
+  rrfK: number;
+  vectorWeight: number;
+  keywordWeight: number;
+};
+
+// A ranked retrieval unit: a chunk when offsets are set, else a whole page
+export type Ranked = {
+  fileName: string;
+  page: number;
+  chunk?: number;
+  start?: number;
+  end?: number;
+};
+
+type FusedPage = {
+  fileName: string;
+  page: number;
+  chunks: Ranked[]; // vector chunk hits on the page, best first
+  retrievers: Array<"vector" | "keyword">;
+  vectorRank?: number;
+  keywordRank?: number;
+  score: number;
+};
+
+// Weighted reciprocal rank fusion of the vector and keyword rankings.
+// Vector hits are chunks and keyword hits are pages, so both are fused at
+// page level (a page ranks where its best chunk does); the top pages are
+// then expanded back to their chunks, or the whole page for keyword-only
+// hits. Hits of one page share its fused score and ranks.
+export function fuseRankings(
+  cfg: FusionConfig,
+  vector: Ranked[],
+  keyword: Ranked[]
+): RetrievalHit[] {
+  const fused = new Map<string, FusedPage>();
+  const pageOf = ({ fileName, page }: Ranked) => {
+    const key = `${fileName}#${page}`;
+    let p = fused.get(key);
+    if (!p) {
+      p = { fileName, page, chunks: [], retrievers: [], score: 0 };
+      fused.set(key, p);
+    }
+    return p;
+  };
+
+  let vectorRank = 0;
+  for (const item of vector) {
+    const p = pageOf(item);
+    if (item.start !== undefined) p.chunks.push(item);
+    if (p.vectorRank !== undefined) continue;
+    p.vectorRank = ++vectorRank;
+    p.retrievers.push("vector");
+    p.score += cfg.vectorWeight / (cfg.rrfK + p.vectorRank);
+  }
+  keyword.forEach((item, i) => {
+    const p = pageOf(item);
+    if (p.keywordRank !== undefined) return;
+    p.keywordRank = i + 1;
+    p.retrievers.push("keyword");
+    p.score += cfg.keywordWeight / (cfg.rrfK + i + 1);
+  });
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, cfg.topK)
+    .flatMap(({ chunks, ...p }) => {
+      const hit = {
+        fileName: p.fileName,
+        page: p.page,
+        retrievers: p.retrievers,
+        vectorRank: p.vectorRank,
+        keywordRank: p.keywordRank,
+        score: p.score,
+      };
+      return chunks.length
+        ? chunks.map(({ chunk, start, end }) => ({
+            ...hit,
+            chunk,
+            start,
+            end,
+          }))
+        : [hit];
+    });
+}
@@ -0,0 +1,110 @@
+import { openPoliciesDb } from "./sqlite";
+
+// BM25 keyword retrieval over the `pages` table of public/policies.db.
+// The sql.js wasm build ships without FTS5, so pages_fts cannot be queried
+// in-process; the table is read once and scored here instead.
+
+const K1 = 1.2;
+const B = 0.75;
+
+type Doc = { fileName: string; page: number; len: number };
+
+export type KeywordIndex = {
+  docs: Doc[];
+  postings: Map<string, Array<[doc: number, tf: number]>>;
+  avgLen: number;
+};
+
+export type KeywordHit = { fileName: string; page: number; score: number };
+
+// Short function words carry no signal in queries; documents keep them
+const STOPWORDS = new Set(
+  "a an and are as at be by does do for from has have if in is it its of on or that the their this to was were will with p".split(
+    " "
+  )
+);
+
+// Lowercased alphanumeric runs, matching FTS5's unicode61 tokenizer closely
+// enough that "APL 21-011" becomes apl / 21 / 011
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+let cache: Promise<KeywordIndex | null> | null = null;
+
+export function getKeywordIndex(): Promise<KeywordIndex | null> {
+  if (!cache) cache = loadKeywordIndex();
+  return cache;
+}
+
+async function loadKeywordIndex(): Promise<KeywordIndex | null> {
+  const db = await openPoliciesDb();
+  if (!db) {
+    console.warn("WARNING: keyword retrieval disabled.");
+    return null;
+  }
+  try {
+    const docs: Doc[] = [];
+    const postings = new Map<string, Array<[number, number]>>();
+    let total = 0;
+
+    const stmt = db.prepare(
+      "SELECT fileName, page, text FROM pages ORDER BY fileName, page"
+    );
+    while (stmt.step()) {
+      const [fileName, page, text] = stmt.get() as [string, number, string];
+      const tokens = tokenize(String(text));
+      const tf = new Map<string, number>();
+      for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1);
+
+      const idx = docs.length;
+      docs.push({ fileName, page: Number(page), len: tokens.length });
+      total += tokens.length;
+      for (const [t, n] of tf) {
+        let list = postings.get(t);
+        if (!list) postings.set(t, (list = []));
+        list.push([idx, n]);
+      }
+    }
+    stmt.free();
+
+    console.log(`✅ Keyword index: ${docs.length} pages`);
+    return { docs, postings, avgLen: docs.length ? total / docs.length : 0 };
+  } finally {
+    db.close();
+  }
+}
+
+// `allow` restricts hits to some files (e.g. policies in effect on a date)
+export function searchKeyword(
+  index: KeywordIndex,
+  query: string,
+  k: number,
+  allow?: (fileName: string) => boolean
+): KeywordHit[] {
+  const terms = [...new Set(tokenize(query))].filter((t) => !STOPWORDS.has(t));
+  const N = index.docs.length;
+  const scores = new Map<number, number>();
+
+  for (const t of terms) {
+    const list = index.postings.get(t);
+    if (!list) continue;
+    const idf = Math.log(1 + (N - list.length + 0.5) / (list.length + 0.5));
+    for (const [doc, tf] of list) {
+      if (allow && !allow(index.docs[doc].fileName)) continue;
+      const len = index.docs[doc].len;
+      const norm = tf + K1 * (1 - B + (B * len) / (index.avgLen || 1));
+      const s = (idf * tf * (K1 + 1)) / norm;
+      scores.set(doc, (scores.get(doc) ?? 0) + s);
+    }
+  }
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, k)
+    .map(([doc, score]) => ({
+      fileName: index.docs[doc].fileName,
+      page: index.docs[doc].page,
+      score,
+    }));
+}
@@ -0,0 +1,171 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { GenerateOptions, Provider } from "./providers";
+
+// Content-addressed cache of model calls, one JSON file per call under
+// LLM_CACHE_DIR, named by a hash of provider, model, input and parameters.
+// An unchanged question with unchanged packed excerpts hits the same entry.
+//   record: answer from the cache, call the model on a miss and store it
+//   replay: answer from the cache only; a miss throws CacheMissError
+//   bypass: call the model, nothing read or written (default)
+
+export type CacheMode = "record" | "replay" | "bypass";
+
+export const CACHE_MODES: CacheMode[] = ["record", "replay", "bypass"];
+
+const CACHE_DIR =
+  process.env.LLM_CACHE_DIR ?? path.join(process.cwd(), "data", "llm-cache");
+
+type CallKind = "generate" | "embed-query" | "embed-document";
+
+type CacheEntry = {
+  kind: CallKind;
+  model: string;
+  params: GenerateOptions;
+  createdAt: string;
+  output: string | number[]; // reply text, or the embedding
+};
+
+export class CacheMissError extends Error {}
+
+export type LlmCache = {
+  mode: CacheMode;
+  dir: string;
+  stats: { hits: number; misses: number; writes: number };
+};
+
+export function createLlmCache(
+  opts: { mode?: CacheMode; dir?: string } = {}
+): LlmCache {
+  return {
+    mode: opts.mode ?? "bypass",
+    dir: opts.dir ?? CACHE_DIR,
+    stats: { hits: 0, misses: 0, writes: 0 },
+  };
+}
+
+export function cacheFromEnv(
+  env: Record<string, string | undefined> = process.env
+): LlmCache {
+  const mode = (env.LLM_CACHE || "bypass").toLowerCase() as CacheMode;
+  if (!CACHE_MODES.includes(mode))
+    throw new Error(`Unknown LLM_CACHE "${env.LLM_CACHE}"`);
+  return createLlmCache({ mode, dir: env.LLM_CACHE_DIR });
+}
+
+function cacheKey(parts: unknown[]): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(parts))
+    .digest("hex");
+}
+
+// Sharded by the first two hex digits to keep directories small
+function entryPath(cache: LlmCache, key: string): string {
+  return path.join(cache.dir, key.slice(0, 2), `${key}.json`);
+}
+
+async function readEntry(
+  cache: LlmCache,
+  key: string
+): Promise<CacheEntry | null> {
+  try {
+    return JSON.parse(await fs.readFile(entryPath(cache, key), "utf8"));
+  } catch {
+    return null; // missing, or a partial write from a crashed process
+  }
+}
+
+async function writeEntry(
+  cache: LlmCache,
+  key: string,
+  entry: CacheEntry
+): Promise<void> {
+  const file = entryPath(cache, key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(entry));
+  await fs.rename(tmp, file);
+}
+
+async function cached<T extends string | number[]>(
+  cache: LlmCache,
+  provider: Provider,
+  call: {
+    kind: CallKind;
+    model: string;
+    input: string;
+    params?: GenerateOptions;
+  },
+  run: () => Promise<T>
+): Promise<T> {
+  if (cache.mode === "bypass") return run();
+  const params = call.params ?? {};
+  const key = cacheKey([
+    call.kind,
+    provider.name,
+    call.model,
+    call.input,
+    params,
+  ]);
+  const hit = await readEntry(cache, key);
+  if (hit) {
+    cache.stats.hits++;
+    return hit.output as T;
+  }
+  cache.stats.misses++;
+  if (cache.mode === "replay")
+    throw new CacheMissError(
+      `no cached ${call.kind} response for ${provider.name}/${call.model}`
+    );
+
+  const output = await run();
+  try {
+    await writeEntry(cache, key, {
+      kind: call.kind,
+      model: call.model,
+      params,
+      createdAt: new Date().toISOString(),
+      output,
+    });
+    cache.stats.writes++;
+  } catch (err) {
+    console.warn(`could not write LLM cache entry ${key}:`, err);
+  }
+  return output;
+}
+
+// The provider with every generation and embedding call going through `cache`
+export function withCache(provider: Provider, cache: LlmCache): Provider {
+  if (cache.mode === "bypass") return provider;
+  const embed =
+    (kind: CallKind, fn: (text: string) => Promise<Float32Array>) =>
+    async (text: string) =>
+      Float32Array.from(
+        await cached(
+          cache,
+          provider,
+          { kind, model: provider.embedModel, input: text },
+          async () => Array.from(await fn(text))
+        )
+      );
+
+  return {
+    ...provider,
+    generateJson: (prompt, opts) =>
+      cached(
+        cache,
+        provider,
+        {
+          kind: "generate",
+          model: provider.model,
+          input: prompt,
+          params: opts,
+        },
+        () => provider.generateJson(prompt, opts)
+      ),
+    embedQuery: embed("embed-query", provider.embedQuery),
+    embedDocument: embed("embed-document", provider.embedDocument),
+  };
+}
@@ -0,0 +1,227 @@
+// HTTP client shared by the provider layer. Every model call goes through
+// one client per provider, so these limits hold across all pMap workers:
+// - a token bucket spacing requests (a 429 with Retry-After pauses it)
+// - a timeout per attempt, via AbortController
+// - retries with exponential backoff and full jitter on 408/429/5xx,
+//   timeouts and network errors, waiting at least Retry-After
+// - a circuit breaker that fails calls fast for a cooldown after several
+//   calls in a row ran out of retries
+
+export type ModelClientOptions = {
+  maxRetries: number; // attempts after the first
+  baseDelayMs: number;
+  maxDelayMs: number; // cap on one backoff wait, Retry-After included
+  timeoutMs: number; // per attempt
+  ratePerSec: number; // token bucket refill; burst is the same size
+  breakerThreshold: number; // calls out of retries before opening
+  breakerCooldownMs: number;
+};
+
+export const DEFAULT_CLIENT_OPTIONS: ModelClientOptions = {
+  maxRetries: Number(process.env.LLM_MAX_RETRIES ?? 5),
+  baseDelayMs: 500,
+  maxDelayMs: 60000,
+  timeoutMs: Number(process.env.LLM_TIMEOUT_MS ?? 120000),
+  ratePerSec: Number(process.env.LLM_RATE_LIMIT ?? 10),
+  breakerThreshold: Number(process.env.LLM_BREAKER_THRESHOLD ?? 5),
+  breakerCooldownMs: Number(process.env.LLM_BREAKER_COOLDOWN_MS ?? 60000),
+};
+
+// Non-OK response; `label` names the call ("Gemini", "embed", ...)
+export class ProviderHttpError extends Error {
+  constructor(
+    label: string,
+    readonly status: number,
+    body: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(`${label} HTTP ${status}: ${body}`);
+  }
+}
+
+// Still failing after every retry; `cause` is the last attempt's error
+export class RetriesExhaustedError extends Error {}
+
+// Refused without calling the provider while the breaker is open
+export class CircuitOpenError extends Error {}
+
+class ModelTimeoutError extends Error {}
+
+const RETRY_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof ProviderHttpError) return RETRY_STATUS.has(err.status);
+  // Network failures: fetch throws a TypeError
+  return err instanceof ModelTimeoutError || err instanceof TypeError;
+}
+
+// Retry-After is seconds or an HTTP date; Gemini also puts a RetryInfo
+// "retryDelay": "30s" in the error body
+function retryAfterMs(r: Response, body: string): number | undefined {
+  const h = r.headers.get("retry-after");
+  if (h) {
+    const secs = Number(h);
+    if (Number.isFinite(secs)) return secs * 1000;
+    const at = Date.parse(h);
+    if (!Number.isNaN(at)) return Math.max(0, at - Date.now());
+  }
+  const m = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return m ? Number(m[1]) * 1000 : undefined;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// FIFO token bucket; `pause` holds every caller until the given time
+function createTokenBucket(ratePerSec: number) {
+  const burst = Math.max(1, ratePerSec);
+  let tokens = burst;
+  let last = Date.now();
+  let pausedUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + ((now - last) / 1000) * ratePerSec);
+    last = now;
+  };
+
+  return {
+    take(): Promise<void> {
+      const turn = queue.then(async () => {
+        if (pausedUntil > Date.now()) await sleep(pausedUntil - Date.now());
+        refill();
+        if (tokens < 1) {
+          await sleep(((1 - tokens) / ratePerSec) * 1000);
+          refill();
+        }
+        tokens -= 1;
+      });
+      queue = turn;
+      return turn;
+    },
+    pause(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
+
+type Breaker = { failures: number; openUntil: number; trial: boolean };
+
+export type ModelClient = {
+  // POST a JSON body and parse the JSON reply
+  postJson: (
+    label: string,
+    url: string,
+    headers: Record<string, string>,
+    body: unknown
+  ) => Promise<unknown>;
+};
+
+export function createModelClient(
+  overrides: Partial<ModelClientOptions> = {}
+): ModelClient {
+  const opts = { ...DEFAULT_CLIENT_OPTIONS, ...overrides };
+  const bucket =
+    opts.ratePerSec > 0 ? createTokenBucket(opts.ratePerSec) : null;
+  const breaker: Breaker = { failures: 0, openUntil: 0, trial: false };
+
+  async function attempt(
+    label: string,
+    url: string,
+    headers: Record<string, string>,
+    body: unknown
+  ): Promise<unknown> {
+    await bucket?.take();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), opts.timeoutMs);
+    try {
+      const r = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (!r.ok) {
+        const text = await r.text();
+        throw new ProviderHttpError(
+          label,
+          r.status,
+          text,
+          retryAfterMs(r, text)
+        );
+      }
+      return await r.json();
+    } catch (err) {
+      if (controller.signal.aborted)
+        throw new ModelTimeoutError(
+          `${label} timed out after ${opts.timeoutMs}ms`
+        );
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function postJson(
+    label: string,
+    url: string,
+    headers: Record<string, string>,
+    body: unknown
+  ): Promise<unknown> {
+    // Open: fail fast until the cooldown ends, then let one trial call through
+    if (breaker.openUntil) {
+      if (Date.now() < breaker.openUntil || breaker.trial)
+        throw new CircuitOpenError(
+          `${label}: provider calls paused after ${breaker.failures} failed calls`
+        );
+      breaker.trial = true;
+    }
+
+    let lastErr: unknown;
+    for (let i = 0; i <= opts.maxRetries; i++) {
+      try {
+        const out = await attempt(label, url, headers, body);
+        breaker.failures = 0;
+        breaker.openUntil = 0;
+        breaker.trial = false;
+        return out;
+      } catch (err) {
+        if (!isRetryable(err)) {
+          breaker.trial = false;
+          throw err;
+        }
+        lastErr = err;
+        if (i === opts.maxRetries) break;
+        const backoff =
+          Math.random() * Math.min(opts.maxDelayMs, opts.baseDelayMs * 2 ** i);
+        const hinted =
+          err instanceof ProviderHttpError ? err.retryAfterMs : undefined;
+        const wait = Math.min(opts.maxDelayMs, Math.max(backoff, hinted ?? 0));
+        if (hinted !== undefined) bucket?.pause(wait);
+        console.warn(
+          `${label}: attempt ${i + 1} failed (${
+            err instanceof Error ? err.message.slice(0, 200) : String(err)
+          }), retrying in ${Math.round(wait)}ms`
+        );
+        await sleep(wait);
+      }
+    }
+
+    breaker.failures++;
+    breaker.trial = false;
+    if (breaker.openUntil || breaker.failures >= opts.breakerThreshold) {
+      breaker.openUntil = Date.now() + opts.breakerCooldownMs;
+      console.error(
+        `${label}: ${breaker.failures} calls failed after retries; pausing calls for ${opts.breakerCooldownMs}ms`
+      );
+    }
+    throw new RetriesExhaustedError(
+      `${label} failed after ${opts.maxRetries + 1} attempts: ${
+        lastErr instanceof Error ? lastErr.message : String(lastErr)
+      }`,
+      { cause: lastErr }
+    );
+  }
+
+  return { postJson };
+}
@@ -0,0 +1,24 @@
+// Browser-side pdf.js loader, shared by question extraction and the policy
+// viewer. The worker comes from the CDN build matching the imported api.
+
+type PdfjsWithVersion = typeof import("pdfjs-dist/legacy/build/pdf.mjs") & {
+  version?: string;
+};
+
+let cache: Promise<PdfjsWithVersion> | null = null;
+
+export function loadPdfjs(): Promise<PdfjsWithVersion> {
+  if (!cache) cache = importPdfjs();
+  return cache;
+}
+
+async function importPdfjs(): Promise<PdfjsWithVersion> {
+  const pdfjs = (await import(
+    "pdfjs-dist/legacy/build/pdf.mjs"
+  )) as PdfjsWithVersion;
+
+  // Match worker version to the imported api version
+  const version = pdfjs.version ?? "4.10.38";
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+  return pdfjs;
+}
@@ -0,0 +1,22 @@
+// ========== tiny concurrency ==========
+// Workers stop picking up new items once `stop` returns true
+export async function pMap<T, R>(
+  arr: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  stop?: () => boolean
+): Promise<R[]> {
+  const out: R[] = new Array(arr.length);
+  let i = 0;
+  const workers = Array.from(
+    { length: Math.min(limit, arr.length) },
+    async function worker() {
+      for (; i < arr.length && !stop?.();) {
+        const idx = i++;
+        out[idx] = await fn(arr[idx] as T, idx);
+      }
+    }
+  );
+  await Promise.all(workers);
+  return out;
+}
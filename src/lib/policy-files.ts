@@ -0,0 +1,39 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// Source policy PDFs under policies-src/, looked up by file name. Citations
+// only carry the file name, so the tree is walked once and re-walked on a
+// miss (a file added since the last walk).
+
+const SRC_DIR = path.join(process.cwd(), "policies-src");
+
+let index: Map<string, string> | null = null;
+
+function walk(dir: string, out: Map<string, string>) {
+  if (!fs.existsSync(dir)) return;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const p = path.join(dir, entry.name);
+    if (entry.isDirectory()) walk(p, out);
+    else if (entry.isFile() && /\.pdf$/i.test(entry.name)) {
+      // first one wins when two folders hold the same file name
+      if (!out.has(entry.name)) out.set(entry.name, p);
+    }
+  }
+}
+
+function buildIndex(): Map<string, string> {
+  const out = new Map<string, string>();
+  walk(SRC_DIR, out);
+  return out;
+}
+
+// Absolute path of the PDF, or null when there is no such policy file
+export function resolvePolicyFile(fileName: string): string | null {
+  if (!index) index = buildIndex();
+  let p = index.get(fileName);
+  if (!p) {
+    index = buildIndex();
+    p = index.get(fileName);
+  }
+  return p ?? null;
+}
@@ -0,0 +1,126 @@
+import { hasTable, openPoliciesDb } from "./sqlite";
+
+// Policy metadata encoded in policies-src file names, e.g.
+//   AA.1207b_CEO20241113_v20241107.pdf
+//   CMC.9002__Policy_CEO20220818_DHCS20220701_PRC20220518_v.20220501_CEO.pdf
+//   GG.1102_v20231231_CEO20240129_no attachments.pdf
+
+export type PolicyMeta = {
+  fileName: string;
+  policyId: string; // "AA.1207b"
+  department: string; // "AA", "GG", "MA", ...
+  number: string; // "1207"
+  suffix?: string; // "b"
+  ceoApprovalDate?: string; // ISO dates (yyyy-mm-dd)
+  versionDate?: string; // v20241107 / v.20220501, else a bare date
+  regulatorDates: Record<string, string>; // { DHCS: ..., PRC: ... }
+  effectiveDate?: string; // versionDate, else ceoApprovalDate
+  notes: string[]; // unrecognised name parts ("no attachments", "2025")
+};
+
+const ID = /^([A-Z]{2,4})\.(\d{3,5})([a-z]?)$/;
+
+function isoDate(d: string): string | undefined {
+  const y = Number(d.slice(0, 4));
+  const m = Number(d.slice(4, 6));
+  const day = Number(d.slice(6, 8));
+  if (y < 1990 || m < 1 || m > 12 || day < 1 || day > 31) return undefined;
+  return `${d.slice(0, 4)}-${d.slice(4, 6)}-${d.slice(6, 8)}`;
+}
+
+// Returns null when the name does not start with a policy id
+export function parsePolicyFileName(fileName: string): PolicyMeta | null {
+  const parts = fileName
+    .replace(/\.pdf$/i, "")
+    .split("_")
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const id = parts.shift()?.match(ID);
+  if (!id) return null;
+
+  const meta: PolicyMeta = {
+    fileName,
+    policyId: `${id[1]}.${id[2]}${id[3]}`,
+    department: id[1],
+    number: id[2],
+    suffix: id[3] || undefined,
+    regulatorDates: {},
+    notes: [],
+  };
+  let bareDate: string | undefined;
+
+  for (const part of parts) {
+    let m: RegExpMatchArray | null;
+    let date: string | undefined;
+    if ((m = part.match(/^CEO(\d{8})$/)) && (date = isoDate(m[1]))) {
+      meta.ceoApprovalDate = date;
+    } else if ((m = part.match(/^v\.?(\d{8})$/)) && (date = isoDate(m[1]))) {
+      meta.versionDate = date;
+    } else if (
+      (m = part.match(/^([A-Z][A-Za-z0-9]*?)(\d{8})$/)) &&
+      (date = isoDate(m[2]))
+    ) {
+      meta.regulatorDates[m[1]] = date;
+    } else if ((m = part.match(/^(\d{8})$/)) && (date = isoDate(m[1]))) {
+      bareDate = date;
+    } else {
+      meta.notes.push(part);
+    }
+  }
+
+  meta.versionDate ??= bareDate;
+  meta.effectiveDate = meta.versionDate ?? meta.ceoApprovalDate;
+  return meta;
+}
+
+// For each policy id, the file in effect on `asOf` (latest effective date
+// not after it). Files without an effective date are always kept.
+export function filesInEffect(metas: PolicyMeta[], asOf: string): Set<string> {
+  const best = new Map<string, PolicyMeta>();
+  const keep = new Set<string>();
+  for (const m of metas) {
+    if (!m.effectiveDate) {
+      keep.add(m.fileName);
+      continue;
+    }
+    if (m.effectiveDate > asOf) continue;
+    const cur = best.get(m.policyId);
+    if (!cur || m.effectiveDate > cur.effectiveDate!) best.set(m.policyId, m);
+  }
+  for (const m of best.values()) keep.add(m.fileName);
+  return keep;
+}
+
+let cache: Promise<Map<string, PolicyMeta>> | null = null;
+
+// fileName -> metadata, from the `policies` table of policies.db. Databases
+// built before that table existed fall back to parsing the page file names.
+export function getPolicyMetaIndex(): Promise<Map<string, PolicyMeta>> {
+  if (!cache) cache = loadPolicyMetaIndex();
+  return cache;
+}
+
+async function loadPolicyMetaIndex(): Promise<Map<string, PolicyMeta>> {
+  const out = new Map<string, PolicyMeta>();
+  const db = await openPoliciesDb();
+  if (!db) return out;
+  try {
+    if (hasTable(db, "policies")) {
+      const stmt = db.prepare("SELECT fileName, meta FROM policies");
+      while (stmt.step()) {
+        const [fileName, meta] = stmt.get() as [string, string];
+        out.set(fileName, JSON.parse(meta) as PolicyMeta);
+      }
+      stmt.free();
+    } else {
+      const r = db.exec("SELECT DISTINCT fileName FROM pages");
+      for (const [fileName] of r[0]?.values ?? []) {
+        const meta = parsePolicyFileName(String(fileName));
+        if (meta) out.set(meta.fileName, meta);
+      }
+    }
+  } finally {
+    db.close();
+  }
+  return out;
+}
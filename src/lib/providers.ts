@@ -0,0 +1,210 @@
+// LLM / embedding provider layer shared by the API routes and the build
+// scripts. Select the backend with LLM_PROVIDER=gemini|openai|fake.
+
+import { cacheFromEnv, withCache } from "./llm-cache";
+import { createModelClient, type ModelClient } from "./model-client";
+
+export type GenerateOptions = {
+  temperature?: number;
+  json?: boolean; // ask for JSON mode where the backend has one
+};
+
+export type Provider = {
+  name: string;
+  model: string; // generation model id
+  embedModel: string; // embedding model id
+  // Returns the raw model text; callers parse the JSON themselves
+  generateJson: (prompt: string, opts?: GenerateOptions) => Promise<string>;
+  embedQuery: (text: string) => Promise<Float32Array>;
+  embedDocument: (text: string) => Promise<Float32Array>;
+};
+
+export type ProviderName = "gemini" | "openai" | "fake";
+
+// ========== Gemini ==========
+export function createGeminiProvider(opts: {
+  apiKey: string;
+  model?: string;
+  embedModel?: string;
+  client?: ModelClient; // retries and rate limits, see model-client.ts
+}): Provider {
+  const model = opts.model || "gemini-2.5-flash-lite";
+  const embedModel = opts.embedModel || "text-embedding-004";
+  const key = encodeURIComponent(opts.apiKey);
+  const GEN_URL = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${key}`;
+  const EMB_URL = `https://generativelanguage.googleapis.com/v1/models/${embedModel}:embedContent?key=${key}`;
+  const client = opts.client ?? createModelClient();
+  const headers = { "content-type": "application/json" };
+
+  if (!opts.apiKey) {
+    console.warn("WARNING: GOOGLE_API_KEY is not set.");
+  }
+
+  async function embed(text: string, taskType: string): Promise<Float32Array> {
+    if (!opts.apiKey) throw new Error("Missing GOOGLE_API_KEY");
+    const body = { content: { parts: [{ text }] }, taskType };
+    const j = (await client.postJson("embed", EMB_URL, headers, body)) as {
+      embedding?: { values?: number[] };
+    };
+    const v = j.embedding?.values;
+    if (!Array.isArray(v)) throw new Error("No embedding.values");
+    return Float32Array.from(v);
+  }
+
+  return {
+    name: "gemini",
+    model,
+    embedModel,
+    async generateJson(prompt, genOpts) {
+      if (!opts.apiKey) throw new Error("Missing GOOGLE_API_KEY");
+      const body = {
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: genOpts?.temperature ?? 0.1,
+          ...(genOpts?.json && { responseMimeType: "application/json" }),
+        },
+      };
+      const j = (await client.postJson("Gemini", GEN_URL, headers, body)) as {
+        candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+      };
+      return j.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+    },
+    embedQuery: (text) => embed(text, "RETRIEVAL_QUERY"),
+    embedDocument: (text) => embed(text, "RETRIEVAL_DOCUMENT"),
+  };
+}
+
+// ========== OpenAI-compatible (vLLM, Ollama, LM Studio, ...) ==========
+export function createOpenAiProvider(opts: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  embedModel: string;
+  jsonMode?: boolean; // send response_format for JSON calls (default true)
+  client?: ModelClient;
+}): Provider {
+  const base = opts.baseUrl.replace(/\/+$/, "");
+  const client = opts.client ?? createModelClient();
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+  };
+  if (opts.apiKey) headers.authorization = `Bearer ${opts.apiKey}`;
+
+  async function embed(text: string): Promise<Float32Array> {
+    const j = (await client.postJson("embed", `${base}/embeddings`, headers, {
+      model: opts.embedModel,
+      input: text,
+    })) as { data?: Array<{ embedding?: number[] }> };
+    const v = j.data?.[0]?.embedding;
+    if (!Array.isArray(v)) throw new Error("No data[0].embedding");
+    return Float32Array.from(v);
+  }
+
+  return {
+    name: "openai",
+    model: opts.model,
+    embedModel: opts.embedModel,
+    async generateJson(prompt, genOpts) {
+      const body = {
+        model: opts.model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: genOpts?.temperature ?? 0.1,
+        ...(genOpts?.json &&
+          opts.jsonMode !== false && {
+            response_format: { type: "json_object" },
+          }),
+      };
+      const j = (await client.postJson(
+        "LLM",
+        `${base}/chat/completions`,
+        headers,
+        body
+      )) as {
+        choices?: Array<{ message?: { content?: string } }>;
+      };
+      return j.choices?.[0]?.message?.content ?? "";
+    },
+    // OpenAI-style endpoints make no query/document distinction
+    embedQuery: embed,
+    embedDocument: embed,
+  };
+}
+
+// ========== Deterministic fake (tests / offline dev) ==========
+// Embeddings are hashed bags of words, so lexical overlap still ranks
+// sensibly. Generation returns `respond(prompt)`, "{}" by default.
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function fakeEmbedding(text: string, dim: number): Float32Array {
+  const v = new Float32Array(dim);
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  for (const tok of tokens) {
+    const h = fnv1a(tok);
+    v[h % dim] += h & 0x80000000 ? -1 : 1;
+  }
+  let n = 0;
+  for (let i = 0; i < dim; i++) n += v[i] * v[i];
+  n = Math.sqrt(n) || 1;
+  for (let i = 0; i < dim; i++) v[i] /= n;
+  return v;
+}
+
+export function createFakeProvider(
+  opts: { dim?: number; respond?: (prompt: string) => string } = {}
+): Provider {
+  const dim = opts.dim ?? 768;
+  const respond = opts.respond ?? (() => "{}");
+  return {
+    name: "fake",
+    model: "fake-llm",
+    embedModel: `fake-embedding-${dim}`,
+    generateJson: async (prompt) => respond(prompt),
+    embedQuery: async (text) => fakeEmbedding(text, dim),
+    embedDocument: async (text) => fakeEmbedding(text, dim),
+  };
+}
+
+// ========== Configuration ==========
+export function createProviderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Provider {
+  const name = (env.LLM_PROVIDER || "gemini").toLowerCase() as ProviderName;
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider({
+        apiKey: env.GOOGLE_API_KEY || "",
+        model: env.GEMINI_MODEL,
+        embedModel: env.GEMINI_EMBED_MODEL,
+      });
+    case "openai":
+      return createOpenAiProvider({
+        baseUrl: env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || "llama3.1",
+        embedModel: env.OPENAI_EMBED_MODEL || "nomic-embed-text",
+        jsonMode: env.OPENAI_JSON_MODE !== "0",
+      });
+    case "fake":
+      return createFakeProvider({
+        dim: env.FAKE_EMBED_DIM ? Number(env.FAKE_EMBED_DIM) : undefined,
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+let cache: Provider | null = null;
+
+// The env-configured provider behind the LLM_CACHE record/replay cache
+export function getProvider(): Provider {
+  if (cache) return cache;
+  cache = withCache(createProviderFromEnv(), cacheFromEnv());
+  return cache;
+}
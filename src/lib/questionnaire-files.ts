@@ -0,0 +1,450 @@
+import ExcelJS from "exceljs";
+import JSZip from "jszip";
+import {
+  findReferences,
+  normalizeText,
+  parseQuestionnaireLines,
+  uniqueRefs,
+  type ParsedQuestion,
+  type QuestionnaireLine,
+} from "./questionnaire";
+
+// Server-side parsers for questionnaires that arrive as Word documents or
+// spreadsheets. Both produce the same ParsedQuestion[] as the PDF path:
+// DOCX text goes through the page-aware line parser (heading styles and
+// automatic list numbers included); sheets, CSV files and DOCX tables with
+// a question column are read one requirement per row.
+
+export type QuestionnaireFormat = "docx" | "xlsx" | "csv";
+
+// Columns by header text or letter ("B"); detected from headers when unset
+export type ColumnOptions = {
+  questionColumn?: string;
+  idColumn?: string;
+  sheet?: string; // XLSX worksheet name; default: every sheet with questions
+};
+
+// Raised for files that cannot be read as a questionnaire
+export class QuestionnaireFormatError extends Error {}
+
+export function formatOf(fileName: string): QuestionnaireFormat | null {
+  const ext = fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  return ext === "docx" || ext === "xlsx" || ext === "csv" ? ext : null;
+}
+
+export async function parseQuestionnaireFile(
+  data: Buffer,
+  format: QuestionnaireFormat,
+  opts: ColumnOptions = {}
+): Promise<ParsedQuestion[]> {
+  switch (format) {
+    case "docx":
+      return parseDocx(data);
+    case "xlsx":
+      return parseXlsx(data, opts);
+    case "csv":
+      return rowsToQuestions(parseCsv(data.toString("utf8")), opts, {
+        required: true,
+      });
+  }
+}
+
+// ========== Rows (XLSX, CSV, DOCX tables) ==========
+
+const QUESTION_HEADER = /question|requirement|criteri|element|standard/i;
+const ID_HEADER =
+  /^(#|no\.?|num(ber)?|id|item( no\.?| #)?|ref(erence)? ?(no\.?|#)|(question|requirement|element) ?(no\.?|#|id|number))$/i;
+const REFERENCE_HEADER = /reference|citation|regulat|authority|source/i;
+const SECTION_HEADER = /^(section|category|domain|area|topic)$/i;
+
+// A header name (exact, ignoring case) wins over a column letter, so "ID"
+// or "Q" name their header when one exists; then letters within the sheet,
+// then partial header names. -1 when the spec names no column.
+function columnIndex(header: string[], spec: string, width: number): number {
+  const s = spec.trim().toLowerCase();
+  const lower = header.map((h) => h.toLowerCase());
+  const exact = lower.indexOf(s);
+  if (exact >= 0) return exact;
+  if (/^[A-Z]{1,2}$/.test(spec.trim())) {
+    const i =
+      [...spec.trim()].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+    if (i < width) return i;
+  }
+  return lower.findIndex((h) => h.includes(s));
+}
+
+function findHeader(header: string[], re: RegExp, skip: number[]): number {
+  return header.findIndex((h, i) => !skip.includes(i) && re.test(h));
+}
+
+// Column whose cells are longest on average, for headerless question lists
+function longestColumn(rows: string[][]): number {
+  const width = Math.max(...rows.map((r) => r.length));
+  let best = 0;
+  let bestLen = -1;
+  for (let c = 0; c < width; c++) {
+    const len = rows.reduce((n, r) => n + (r[c]?.length ?? 0), 0);
+    if (len > bestLen) [best, bestLen] = [c, len];
+  }
+  return best;
+}
+
+// The first non-empty row is the header. With `required`, a sheet whose
+// question column cannot be identified by header falls back to the column
+// with the longest text; otherwise it is skipped (e.g. a cover sheet).
+export function rowsToQuestions(
+  rows: string[][],
+  opts: ColumnOptions,
+  ctx: { required: boolean; section?: string }
+): ParsedQuestion[] {
+  const cells = rows.map((r) => r.map(normalizeText));
+  const start = cells.findIndex((r) => r.some(Boolean));
+  if (start < 0) return [];
+  const header = cells[start];
+  const body = cells.slice(start + 1);
+
+  const width = Math.max(...cells.map((r) => r.length));
+  const noColumn = (spec: string) =>
+    new QuestionnaireFormatError(
+      `No column "${spec}" in ${header.filter(Boolean).join(", ")}`
+    );
+
+  let q = -1;
+  if (opts.questionColumn) {
+    q = columnIndex(header, opts.questionColumn, width);
+    if (q < 0) throw noColumn(opts.questionColumn);
+  } else {
+    q = findHeader(header, QUESTION_HEADER, []);
+    if (q < 0 && !ctx.required) return [];
+    if (q < 0) q = longestColumn(body);
+  }
+
+  let id = -1;
+  if (opts.idColumn) {
+    id = columnIndex(header, opts.idColumn, width);
+    if (id < 0) throw noColumn(opts.idColumn);
+  } else id = findHeader(header, ID_HEADER, [q]);
+  const refs = findHeader(header, REFERENCE_HEADER, [q, id]);
+  const section = findHeader(header, SECTION_HEADER, [q, id, refs]);
+
+  const out: ParsedQuestion[] = [];
+  for (const r of body) {
+    const text = r[q] ?? "";
+    if (text.length < 5) continue;
+    const cited = refs >= 0 ? (r[refs] ?? "") : "";
+    const found = findReferences(`${cited} ${text}`);
+    const references = uniqueRefs(
+      found.length || !cited ? found : cited.split(/\s*;\s*/)
+    );
+    out.push({
+      text,
+      number: (id >= 0 && r[id]) || undefined,
+      section: (section >= 0 && r[section]) || ctx.section,
+      references: references.length ? references : undefined,
+    });
+  }
+  if (opts.questionColumn && !out.length)
+    throw new QuestionnaireFormatError(
+      `No questions in column "${opts.questionColumn}"`
+    );
+  return out;
+}
+
+// ========== CSV ==========
+
+// RFC 4180 with the delimiter (comma, semicolon or tab) guessed from the
+// first line
+export function parseCsv(input: string): string[][] {
+  const text = input.replace(/^\uFEFF/, "");
+  const first = text.slice(0, text.search(/\r?\n|$/));
+  const delim = [",", ";", "\t"].reduce((a, b) =>
+    first.split(b).length > first.split(a).length ? b : a
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") quoted = true;
+    else if (ch === delim) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ========== XLSX ==========
+
+async function parseXlsx(
+  data: Buffer,
+  opts: ColumnOptions
+): Promise<ParsedQuestion[]> {
+  const wb = new ExcelJS.Workbook();
+  try {
+    await wb.xlsx.load(data as unknown as ArrayBuffer);
+  } catch (err) {
+    throw new QuestionnaireFormatError(
+      `Not a readable XLSX workbook: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  let sheets = wb.worksheets;
+  if (opts.sheet) {
+    sheets = sheets.filter((s) => s.name === opts.sheet);
+    if (!sheets.length)
+      throw new QuestionnaireFormatError(
+        `No sheet "${opts.sheet}" in ${wb.worksheets.map((s) => s.name).join(", ")}`
+      );
+  }
+
+  const rowsOf = (sheet: ExcelJS.Worksheet): string[][] => {
+    const rows: string[][] = [];
+    for (let r = 1; r <= sheet.rowCount; r++) {
+      const row = sheet.getRow(r);
+      const cells: string[] = [];
+      for (let c = 1; c <= sheet.columnCount; c++)
+        cells.push(row.getCell(c).text ?? "");
+      rows.push(cells);
+    }
+    return rows;
+  };
+
+  // Sheets are sections when there is more than one. A configured column
+  // only has to exist on one of them.
+  const many = sheets.length > 1;
+  const errors: QuestionnaireFormatError[] = [];
+  const out = sheets.flatMap((s) => {
+    try {
+      return rowsToQuestions(rowsOf(s), opts, {
+        required: !!opts.sheet || !!opts.questionColumn,
+        section: many ? s.name : undefined,
+      });
+    } catch (err) {
+      if (!(err instanceof QuestionnaireFormatError)) throw err;
+      errors.push(err);
+      return [];
+    }
+  });
+  if (errors.length === sheets.length) throw errors[0];
+  if (out.length || !sheets.length) return out;
+  // No sheet has a recognizable question header: use the first one
+  return rowsToQuestions(rowsOf(sheets[0]), opts, { required: true });
+}
+
+// ========== DOCX ==========
+
+type Level = { start: number; format: string; text: string };
+
+function attr(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<w:${tag}\\b[^>]*\\bw:val="([^"]*)"`))?.[1];
+}
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .replace(/&amp;/g, "&");
+}
+
+// numId -> its abstract definition's levels, from word/numbering.xml
+function parseNumbering(xml: string): Map<string, Level[]> {
+  const abstract = new Map<string, Level[]>();
+  for (const m of xml.matchAll(
+    /<w:abstractNum\b[^>]*w:abstractNumId="(\d+)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g
+  )) {
+    const levels: Level[] = [];
+    for (const l of m[2].matchAll(
+      /<w:lvl\b[^>]*w:ilvl="(\d+)"[^>]*>([\s\S]*?)<\/w:lvl>/g
+    )) {
+      levels[Number(l[1])] = {
+        start: Number(attr(l[2], "start") ?? 1),
+        format: attr(l[2], "numFmt") ?? "decimal",
+        text: attr(l[2], "lvlText") ?? "",
+      };
+    }
+    abstract.set(m[1], levels);
+  }
+  const out = new Map<string, Level[]>();
+  for (const m of xml.matchAll(
+    /<w:num\b[^>]*w:numId="(\d+)"[^>]*>([\s\S]*?)<\/w:num>/g
+  )) {
+    const levels = abstract.get(attr(m[2], "abstractNumId") ?? "");
+    if (levels) out.set(m[1], levels);
+  }
+  return out;
+}
+
+function roman(n: number): string {
+  const parts: Array<[number, string]> = [
+    [10, "x"],
+    [9, "ix"],
+    [5, "v"],
+    [4, "iv"],
+    [1, "i"],
+  ];
+  let out = "";
+  for (const [v, s] of parts) for (; n >= v; n -= v) out += s;
+  return out;
+}
+
+function formatCounter(n: number, format: string): string {
+  switch (format) {
+    case "lowerLetter":
+      return String.fromCharCode(96 + (((n - 1) % 26) + 1));
+    case "upperLetter":
+      return String.fromCharCode(64 + (((n - 1) % 26) + 1));
+    case "lowerRoman":
+      return roman(n);
+    case "upperRoman":
+      return roman(n).toUpperCase();
+    default:
+      return String(n);
+  }
+}
+
+// Renders Word's automatic list numbers ("%1.%2" -> "3.2") as paragraphs
+// are read in order. Bullets have no number.
+function listNumberer(numbering: Map<string, Level[]>) {
+  const counters = new Map<string, number[]>();
+  return (numId: string, ilvl: number): string | undefined => {
+    const levels = numbering.get(numId);
+    const level = levels?.[ilvl];
+    if (!levels || !level || level.format === "bullet") return undefined;
+    const c = counters.get(numId) ?? [];
+    for (let i = 0; i < ilvl; i++) c[i] ??= levels[i]?.start ?? 1;
+    c[ilvl] = c[ilvl] === undefined ? level.start : c[ilvl] + 1;
+    c.length = ilvl + 1; // deeper levels restart
+    counters.set(numId, c);
+    const text = level.text.replace(/%(\d)/g, (_, k) => {
+      const i = Number(k) - 1;
+      return formatCounter(c[i] ?? 1, levels[i]?.format ?? "decimal");
+    });
+    return text.replace(/^[(\s]+|[.)\s]+$/g, "") || undefined;
+  };
+}
+
+type DocxParagraph = {
+  text: string;
+  heading: boolean;
+  number?: string;
+  breaks: number; // page breaks inside the paragraph
+};
+
+function readParagraph(
+  xml: string,
+  number: ReturnType<typeof listNumberer>
+): DocxParagraph {
+  let text = "";
+  let breaks = 0;
+  for (const m of xml.matchAll(
+    /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\b([^>]*)\/>|<w:lastRenderedPageBreak\/>/g
+  )) {
+    if (m[1] !== undefined) text += decodeXml(m[1]);
+    else if (m[0].startsWith("<w:tab")) text += " ";
+    else if (m[0].startsWith("<w:lastRendered") || /w:type="page"/.test(m[2]))
+      breaks++;
+    else text += "\n";
+  }
+  const style = attr(xml, "pStyle") ?? "";
+  const numId = attr(xml, "numId");
+  return {
+    text,
+    heading: /^(heading|title)/i.test(style),
+    number:
+      numId && numId !== "0"
+        ? number(numId, Number(attr(xml, "ilvl") ?? 0))
+        : undefined,
+    breaks,
+  };
+}
+
+async function parseDocx(data: Buffer): Promise<ParsedQuestion[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new QuestionnaireFormatError("Not a readable DOCX document");
+  }
+  const doc = await zip.file("word/document.xml")?.async("string");
+  if (!doc) throw new QuestionnaireFormatError("DOCX has no document body");
+  const numberingXml = await zip.file("word/numbering.xml")?.async("string");
+  const number = listNumberer(parseNumbering(numberingXml ?? ""));
+
+  const out: ParsedQuestion[] = [];
+  let lines: QuestionnaireLine[] = [];
+  let page = 1;
+  let heading: string | undefined; // latest, carried into tables
+
+  const flushLines = () => {
+    out.push(...parseQuestionnaireLines(lines));
+    lines = heading ? [{ page, text: heading, heading: true }] : [];
+  };
+
+  for (const block of doc.matchAll(
+    /<w:tbl>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[\s\S]*?<\/w:p>/g
+  )) {
+    const xml = block[0];
+    if (xml.startsWith("<w:tbl>")) {
+      const rows = [...xml.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g)].map((tr) =>
+        [...tr[0].matchAll(/<w:tc>[\s\S]*?<\/w:tc>/g)].map((tc) =>
+          [...tc[0].matchAll(/<w:p\b[\s\S]*?<\/w:p>/g)]
+            .map((p) => readParagraph(p[0], number).text)
+            .join("\n")
+        )
+      );
+      // A table with a question column is one question per row; any
+      // other table is read as text, a row per line
+      const fromRows = rowsToQuestions(
+        rows,
+        {},
+        {
+          required: false,
+          section: heading,
+        }
+      );
+      if (fromRows.length) {
+        flushLines();
+        out.push(...fromRows.map((q) => ({ ...q, page })));
+      } else {
+        for (const r of rows) lines.push({ page, text: r.join(" ") });
+      }
+      continue;
+    }
+
+    const p = readParagraph(xml, number);
+    p.text.split("\n").forEach((text, i) => {
+      if (p.heading && normalizeText(text)) heading = normalizeText(text);
+      lines.push({
+        page,
+        text,
+        heading: p.heading,
+        number: i === 0 ? p.number : undefined,
+      });
+    });
+    page += p.breaks;
+  }
+  flushLines();
+  return out;
+}
@@ -0,0 +1,319 @@
+import type { Question } from "../types";
+
+// Page-aware questionnaire parsing. DHCS audit tools number their questions
+// ("3.2.a"), group them under section headers and cite the regulations they
+// test (APLs, contract exhibits, CFR/W&I sections); all of that is kept on
+// the Question. Runs in the browser and on the server.
+
+// One page of questionnaire text, line breaks kept
+export type QuestionnairePage = { page: number; text: string };
+
+// A question before ids are assigned
+export type ParsedQuestion = Omit<Question, "id">;
+
+export const STARTERS =
+  /^(does(?:\s+the\s+p&?p)?|do|is|are|will|shall|must)\s/i;
+
+const MAX_QUESTION_CHARS = 600;
+
+const REFERENCE_PATTERNS: RegExp[] = [
+  /\b(?:APL|PL)\s*\d{2}-\d{3}[A-Z]?\b/gi, // All Plan / Policy Letters
+  /\bExhibit\s+[A-H](?:,?\s*Attachment\s+[\dA-Z]+)?(?:,?\s*(?:Provision|Section)\s+[\d.]+)?/g,
+  /\b\d+\s*CFR\s*(?:§+\s*|(?:section|part)\s+)?\d+(?:\.\d+)*(?:\([a-z0-9]+\))*/gi,
+  /\b\d+\s*CCR\s*(?:§+\s*|section\s+)?\d+(?:\.\d+)*(?:\([a-z0-9]+\))*/gi,
+  /\b(?:W&I|WIC|H&S|HSC)\s*(?:Code)?\s*(?:§+\s*|section\s+)?\d+(?:\.\d+)*(?:\([a-z0-9]+\))*/gi,
+  /\b(?:Welfare and Institutions|Health and Safety)\s+Code,?\s*(?:§+\s*|section\s+)?\d+(?:\.\d+)*(?:\([a-z0-9]+\))*/gi,
+];
+
+// "3.2.a", "3.2(a)", "12."; letters and roman numerals only as "a." / "ii)"
+const NUMBERED = /^(\d+(?:\.\d+)*(?:\.?[a-z]|\([a-z0-9]+\))?)[.):]?\s+(\S.*)$/i;
+const SUB_ITEM = /^\(?([a-h]|[ivx]{1,4})[.)]\s+(\S.*)$/;
+const SUB_NUMBER = /^([a-h]|[ivx]{1,4})$/;
+const SECTION =
+  /^(?:section|part|article|chapter|category)\s+([\dA-Z]+(?:\.\d+)*)\s*[.:–—-]?\s*(.*)$/i;
+
+export function normalizeText(s: string): string {
+  return s
+    .replace(/\u00A0/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Regulatory references cited in the text, in order, without duplicates
+export function findReferences(text: string): string[] {
+  const hits: Array<{ at: number; ref: string }> = [];
+  for (const re of REFERENCE_PATTERNS) {
+    for (const m of text.matchAll(re))
+      hits.push({ at: m.index!, ref: normalizeText(m[0]) });
+  }
+  hits.sort((a, b) => a.at - b.at);
+  return uniqueRefs(hits.map((h) => h.ref));
+}
+
+export function uniqueRefs(refs: string[]): string[] {
+  const seen = new Set<string>();
+  return refs.filter((r) => {
+    const k = r.toLowerCase().replace(/[^a-z0-9]/g, "");
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function isAllCaps(line: string): boolean {
+  const letters = line.replace(/[^A-Za-z]/g, "");
+  return letters.length >= 4 && letters === letters.toUpperCase();
+}
+
+// A short line that names a section rather than asking something
+function sectionTitle(line: string): string | null {
+  if (line.includes("?") || line.length > 90) return null;
+  const m = line.match(SECTION);
+  if (m) return normalizeText(`${m[1]} ${m[2]}`);
+  const n = line.match(NUMBERED);
+  if (n && !STARTERS.test(n[2]) && /^\d+$/.test(n[1]) && isAllCaps(n[2]))
+    return normalizeText(`${n[1]} ${n[2]}`);
+  if (!n && isAllCaps(line) && line.split(/\s+/).length <= 10) return line;
+  return null;
+}
+
+// One line of questionnaire text. Formats with structure outside the text
+// (DOCX heading styles and automatic list numbers) pass it along here.
+export type QuestionnaireLine = {
+  page: number;
+  text: string;
+  heading?: boolean; // known section header
+  number?: string; // list number not part of `text`, e.g. "3.2" or "a"
+};
+
+export function parseQuestionnairePages(
+  pages: QuestionnairePage[]
+): ParsedQuestion[] {
+  return parseQuestionnaireLines(
+    pages.flatMap(({ page, text }) =>
+      text.split(/\r?\n/).map((t) => ({ page, text: t }))
+    )
+  );
+}
+
+// Heuristic parse: numbered or question-word lines start a question, the
+// following lines continue it until the next question or section header
+export function parseQuestionnaireLines(
+  lines: QuestionnaireLine[]
+): ParsedQuestion[] {
+  const out: ParsedQuestion[] = [];
+  let section: string | undefined;
+  let parent: string | undefined; // last full number, for "a." sub-items
+  let stem: string | undefined; // "Does the P&P describe the following:"
+  let block: { number?: string; page: number; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!block) return;
+    const full = normalizeText(block.lines.join(" "));
+    // A lead-in to lettered sub-items is not a question of its own
+    if (full.endsWith(":") && STARTERS.test(full)) stem = full;
+    else {
+      const q = finishBlock(block, section);
+      if (q) out.push(q);
+    }
+    block = null;
+  };
+
+  for (const l of lines) {
+    const line = normalizeText(l.text);
+    if (!line) continue;
+    const page = l.page;
+
+    const title = l.heading ? line : sectionTitle(line);
+    if (title) {
+      flush();
+      section = title;
+      parent = stem = undefined;
+      continue;
+    }
+
+    // [number, rest of the line], from the list number or the text
+    let numbered: string[] | null = null;
+    let sub: string[] | null = null;
+    if (l.number) {
+      if (SUB_NUMBER.test(l.number)) sub = [l.number, line];
+      else numbered = [l.number, line];
+    } else {
+      numbered = line.match(NUMBERED)?.slice(1) ?? null;
+      if (!numbered) sub = line.match(SUB_ITEM)?.slice(1) ?? null;
+    }
+    if (numbered) {
+      flush();
+      parent = numbered[0];
+      stem = undefined;
+      block = { number: numbered[0], page, lines: [numbered[1]] };
+    } else if (sub) {
+      flush();
+      const number = parent ? `${parent}.${sub[0]}` : sub[0];
+      block = { number, page, lines: stem ? [stem, sub[1]] : [sub[1]] };
+    } else if (
+      STARTERS.test(line) &&
+      (!block || block.lines.join(" ").includes("?"))
+    ) {
+      flush();
+      stem = undefined;
+      block = { page, lines: [line] };
+    } else if (block) {
+      block.lines.push(line);
+    }
+  }
+  flush();
+  return out;
+}
+
+function finishBlock(
+  block: { number?: string; page: number; lines: string[] },
+  section: string | undefined
+): ParsedQuestion | null {
+  const full = normalizeText(block.lines.join(" "));
+  const end = full.lastIndexOf("?");
+  const text = end >= 0 ? full.slice(0, end + 1) : full;
+  if (end < 0 && !STARTERS.test(text)) return null;
+  if (text.length < 12 || text.length > MAX_QUESTION_CHARS) return null;
+
+  const references = findReferences(full);
+  return {
+    text: end >= 0 ? text : `${text}?`,
+    number: block.number,
+    section,
+    page: block.page,
+    references: references.length ? references : undefined,
+  };
+}
+
+// Last resort for text whose line structure was lost: any "Does ...?"
+// sentence is a question, attributed to its page
+export function findExplicitQuestions(
+  pages: QuestionnairePage[]
+): ParsedQuestion[] {
+  const re =
+    /((?:Does(?:\s+the\s+P&?P)?|Do|Is|Are|Will|Shall|Must)[^?]{8,}?\?)/gi;
+  const out: ParsedQuestion[] = [];
+  for (const { page, text } of pages) {
+    for (const m of normalizeText(text).matchAll(re)) {
+      const references = findReferences(m[1]);
+      out.push({
+        text: normalizeText(m[1]),
+        page,
+        references: references.length ? references : undefined,
+      });
+    }
+  }
+  return out;
+}
+
+// ========== Chunked extraction ==========
+
+// Windows of up to `size` pages (fewer when they would pass `maxChars`),
+// each starting `overlap` pages before the previous one ended, so a question
+// cut by a window edge is whole in the next window
+export function pageWindows(
+  pages: QuestionnairePage[],
+  opts: { size: number; overlap: number; maxChars: number }
+): QuestionnairePage[][] {
+  const out: QuestionnairePage[][] = [];
+  for (let start = 0; start < pages.length;) {
+    let end = start + 1;
+    let chars = pages[start].text.length;
+    while (
+      end < pages.length &&
+      end - start < opts.size &&
+      chars + pages[end].text.length <= opts.maxChars
+    ) {
+      chars += pages[end].text.length;
+      end++;
+    }
+    out.push(pages.slice(start, end));
+    if (end >= pages.length) break;
+    start = Math.max(start + 1, end - opts.overlap);
+  }
+  return out;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+// Near-duplicate test for questions seen in overlapping windows. Differently
+// numbered questions are never the same (sub-items often differ by a word).
+// Otherwise texts must mostly share their words, or one must be a clearly
+// shorter, nearly contained version of the other (cut at a window edge).
+function isNearDuplicate(a: ParsedQuestion, b: ParsedQuestion): boolean {
+  if (a.number && b.number && a.number !== b.number) return false;
+  const wa = new Set(words(a.text));
+  const wb = new Set(words(b.text));
+  if (!wa.size || !wb.size) return false;
+  let common = 0;
+  for (const w of wa) if (wb.has(w)) common++;
+  const jaccard = common / (wa.size + wb.size - common);
+  if (jaccard >= (a.number && b.number ? 0.6 : 0.9)) return true;
+
+  const [short, long] = wa.size <= wb.size ? [wa, wb] : [wb, wa];
+  return (
+    short.size >= 6 &&
+    short.size <= long.size * 0.85 &&
+    common / short.size >= 0.9
+  );
+}
+
+// Keeps the fuller text and fills in whatever the other one knew
+function mergePair(a: ParsedQuestion, b: ParsedQuestion): ParsedQuestion {
+  const [main, other] = b.text.length > a.text.length ? [b, a] : [a, b];
+  const references = uniqueRefs([
+    ...(main.references ?? []),
+    ...(other.references ?? []),
+  ]);
+  return {
+    ...main,
+    number: main.number ?? other.number,
+    section: main.section ?? other.section,
+    page:
+      main.page && other.page
+        ? Math.min(main.page, other.page)
+        : (main.page ?? other.page),
+    references: references.length ? references : undefined,
+  };
+}
+
+// Merges per-window results in window order. Only questions from nearby
+// pages are compared, since repeats come from the window overlap.
+export function mergeQuestions(lists: ParsedQuestion[][]): ParsedQuestion[] {
+  const out: ParsedQuestion[] = [];
+  for (const list of lists) {
+    for (const q of list) {
+      const i = out.findIndex(
+        (o) =>
+          (!o.page || !q.page || Math.abs(o.page - q.page) <= 1) &&
+          isNearDuplicate(o, q)
+      );
+      if (i >= 0) out[i] = mergePair(out[i], q);
+      else out.push(q);
+    }
+  }
+  return out;
+}
+
+// Ids come from the questionnaire's own numbering ("q_3.2.a"); unnumbered
+// questions fall back to their position. Exact repeats are dropped.
+export function toQuestions(parsed: ParsedQuestion[]): Question[] {
+  const seen = new Set<string>();
+  const ids = new Set<string>();
+  const out: Question[] = [];
+  for (const p of parsed) {
+    const text = normalizeText(p.text);
+    const key = text.toLowerCase();
+    if (!text || seen.has(key)) continue;
+    seen.add(key);
+
+    let id = p.number ? `q_${p.number}` : `q_${out.length + 1}`;
+    for (let n = 2; ids.has(id); n++) id = `${id.replace(/~\d+$/, "")}~${n}`;
+    ids.add(id);
+    out.push({ ...p, id, text });
+  }
+  return out;
+}
@@ -0,0 +1,64 @@
+import type { CheckResult, ResultReview, ReviewEvent, Status } from "../types";
+
+// Derive each result's current review from the event log. Pure, so the
+// client and the exports share it.
+
+export function emptyReview(): ResultReview {
+  return { state: "pending", comments: [] };
+}
+
+export function foldReviews(
+  events: ReviewEvent[]
+): Record<string, ResultReview> {
+  const out: Record<string, ResultReview> = {};
+  for (const ev of [...events].sort((a, b) => a.id - b.id)) {
+    if (!ev.questionId) continue;
+    const r = (out[ev.questionId] ??= emptyReview());
+    const a = ev.action;
+    if (a.type === "accept") {
+      Object.assign(r, {
+        state: "accepted",
+        status: undefined,
+        justification: undefined,
+        reviewedBy: ev.reviewer,
+        reviewedAt: ev.at,
+      });
+    } else if (a.type === "override") {
+      Object.assign(r, {
+        state: "overridden",
+        status: a.status,
+        justification: a.justification,
+        reviewedBy: ev.reviewer,
+        reviewedAt: ev.at,
+      });
+    } else if (a.type === "citations") {
+      r.citations = a.citations;
+    } else if (a.type === "comment") {
+      r.comments.push({ reviewer: ev.reviewer, at: ev.at, text: a.text });
+    }
+  }
+  return out;
+}
+
+export function isReviewed(review?: ResultReview): boolean {
+  return review?.state === "accepted" || review?.state === "overridden";
+}
+
+// The result as it stands after review: overridden status and
+// reviewer-edited citations replace the automated ones
+export function reviewedResult(
+  result: CheckResult,
+  review?: ResultReview
+): CheckResult {
+  if (!review) return result;
+  const status: Status =
+    review.state === "overridden" && review.status
+      ? review.status
+      : result.status;
+  return {
+    ...result,
+    status,
+    reason: status === "Undetermined" ? result.reason : undefined,
+    citations: review.citations ?? result.citations,
+  };
+}
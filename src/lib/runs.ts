@@ -0,0 +1,407 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { Database, SqlValue } from "sql.js";
+import { foldReviews } from "./review";
+import { getSqlJs } from "./sqlite";
+import type {
+  AuditRun,
+  AuditRunSummary,
+  CheckResult,
+  CorpusVersion,
+  Question,
+  ReviewAction,
+  ReviewEvent,
+  RunStatus,
+} from "../types";
+
+// Audit runs persisted in a local SQLite file. sql.js keeps the database in
+// memory, so writes export it back to disk (temp file + rename). Streamed
+// results are batched into one export every SAVE_DELAY_MS; any other write,
+// finishRun included, flushes them.
+// Reviewer actions go to review_events, which is only ever appended to.
+
+const RUNS_DB =
+  process.env.AUDIT_RUNS_DB ??
+  path.join(process.cwd(), "data", "audit-runs.db");
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id                TEXT PRIMARY KEY,
+    name              TEXT NOT NULL,
+    questionnaireName TEXT,
+    questionnaireHash TEXT,
+    status            TEXT NOT NULL,
+    createdAt         TEXT NOT NULL,
+    updatedAt         TEXT NOT NULL,
+    finishedAt        TEXT,
+    asOf              TEXT,
+    provider          TEXT NOT NULL,
+    model             TEXT NOT NULL,
+    corpus            TEXT NOT NULL,
+    questionCount     INTEGER NOT NULL,
+    questions         TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS run_results (
+    runId      TEXT NOT NULL,
+    questionId TEXT NOT NULL,
+    position   INTEGER NOT NULL,
+    result     TEXT NOT NULL,
+    createdAt  TEXT NOT NULL,
+    PRIMARY KEY (runId, questionId)
+  );
+  CREATE TABLE IF NOT EXISTS review_events (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    runId      TEXT NOT NULL,
+    questionId TEXT,
+    reviewer   TEXT NOT NULL,
+    at         TEXT NOT NULL,
+    type       TEXT NOT NULL,
+    action     TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS review_events_runId ON review_events (runId);
+`;
+
+// Columns added after the first release, created on open when missing
+const MIGRATIONS: Array<[table: string, column: string, type: string]> = [
+  ["runs", "signedOffBy", "TEXT"],
+  ["runs", "signedOffAt", "TEXT"],
+];
+
+const SUMMARY_COLUMNS = `
+  id, name, questionnaireName, questionnaireHash, status, createdAt,
+  updatedAt, finishedAt, asOf, provider, model, corpus, questionCount,
+  signedOffBy, signedOffAt,
+  (SELECT count(*) FROM run_results WHERE runId = runs.id) AS resultCount,
+  (SELECT count(DISTINCT questionId) FROM review_events
+    WHERE runId = runs.id AND type IN ('accept', 'override')) AS reviewedCount
+`;
+
+// Raised for writes a run's state does not allow (e.g. once signed off)
+export class RunConflictError extends Error {}
+
+let cache: Promise<Database> | null = null;
+
+function getRunsDb(): Promise<Database> {
+  if (!cache) cache = openRunsDb();
+  return cache;
+}
+
+async function openRunsDb(): Promise<Database> {
+  const SQL = await getSqlJs();
+  const db = fs.existsSync(RUNS_DB)
+    ? new SQL.Database(fs.readFileSync(RUNS_DB))
+    : new SQL.Database();
+  db.exec(SCHEMA);
+  for (const [table, column, type] of MIGRATIONS) {
+    const cols = query(db, `PRAGMA table_info(${table})`).map((c) => c.name);
+    if (!cols.includes(column))
+      db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+  // Runs are only streamed by this process, so one still "running" was cut
+  // off by a crash or restart. Failing it lets it be reviewed and re-run.
+  const now = new Date().toISOString();
+  db.run(
+    `UPDATE runs SET status = 'failed', finishedAt = ?, updatedAt = ?
+     WHERE status = 'running'`,
+    [now, now]
+  );
+  if (db.getRowsModified()) save(db);
+  return db;
+}
+
+const SAVE_DELAY_MS = 2000;
+
+let pendingSave: ReturnType<typeof setTimeout> | null = null;
+
+// Exporting is O(database size), so not once per streamed result
+function scheduleSave(db: Database) {
+  pendingSave ??= setTimeout(() => save(db), SAVE_DELAY_MS);
+}
+
+function save(db: Database) {
+  if (pendingSave) clearTimeout(pendingSave);
+  pendingSave = null;
+  fs.mkdirSync(path.dirname(RUNS_DB), { recursive: true });
+  const tmp = `${RUNS_DB}.tmp`;
+  fs.writeFileSync(tmp, db.export());
+  fs.renameSync(tmp, RUNS_DB);
+}
+
+function query(
+  db: Database,
+  sql: string,
+  params: SqlValue[] = []
+): Array<Record<string, SqlValue>> {
+  const stmt = db.prepare(sql);
+  const out: Array<Record<string, SqlValue>> = [];
+  try {
+    stmt.bind(params);
+    while (stmt.step()) out.push(stmt.getAsObject());
+  } finally {
+    stmt.free();
+  }
+  return out;
+}
+
+function toSummary(row: Record<string, SqlValue>): AuditRunSummary {
+  const opt = (v: SqlValue) => (v === null ? undefined : String(v));
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    questionnaireName: opt(row.questionnaireName),
+    questionnaireHash: opt(row.questionnaireHash),
+    status: row.status as RunStatus,
+    createdAt: String(row.createdAt),
+    updatedAt: String(row.updatedAt),
+    finishedAt: opt(row.finishedAt),
+    asOf: opt(row.asOf),
+    provider: String(row.provider),
+    model: String(row.model),
+    corpus: JSON.parse(String(row.corpus)) as CorpusVersion,
+    questionCount: Number(row.questionCount),
+    resultCount: Number(row.resultCount),
+    reviewedCount: Number(row.reviewedCount),
+    signedOffBy: opt(row.signedOffBy),
+    signedOffAt: opt(row.signedOffAt),
+  };
+}
+
+export async function createRun(input: {
+  name?: string;
+  questionnaireName?: string;
+  questionnaireHash?: string;
+  questions: Question[];
+  asOf?: string;
+  provider: string;
+  model: string;
+  corpus: CorpusVersion;
+}): Promise<AuditRunSummary> {
+  const db = await getRunsDb();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  db.run(
+    `INSERT INTO runs (id, name, questionnaireName, questionnaireHash, status,
+                       createdAt, updatedAt, asOf, provider, model, corpus,
+                       questionCount, questions)
+     VALUES (?, ?, ?, ?, 'running', ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      input.name ?? input.questionnaireName ?? `Audit ${now.slice(0, 10)}`,
+      input.questionnaireName ?? null,
+      input.questionnaireHash ?? null,
+      now,
+      now,
+      input.asOf ?? null,
+      input.provider,
+      input.model,
+      JSON.stringify(input.corpus),
+      input.questions.length,
+      JSON.stringify(input.questions),
+    ]
+  );
+  save(db);
+  return (await getRunSummary(id))!;
+}
+
+// `position` is the question's index in the run, for ordering
+export async function saveResult(
+  runId: string,
+  position: number,
+  result: CheckResult
+): Promise<void> {
+  const db = await getRunsDb();
+  const now = new Date().toISOString();
+  db.run(
+    `INSERT OR REPLACE INTO run_results (runId, questionId, position, result, createdAt)
+     VALUES (?, ?, ?, ?, ?)`,
+    [runId, result.questionId, position, JSON.stringify(result), now]
+  );
+  db.run(`UPDATE runs SET updatedAt = ? WHERE id = ?`, [now, runId]);
+  scheduleSave(db);
+}
+
+export async function finishRun(
+  runId: string,
+  status: Exclude<RunStatus, "running">
+): Promise<void> {
+  const db = await getRunsDb();
+  const now = new Date().toISOString();
+  db.run(
+    `UPDATE runs SET status = ?, finishedAt = ?, updatedAt = ? WHERE id = ?`,
+    [status, now, now, runId]
+  );
+  save(db);
+}
+
+// Newest first
+export async function listRuns(): Promise<AuditRunSummary[]> {
+  const db = await getRunsDb();
+  return query(
+    db,
+    `SELECT ${SUMMARY_COLUMNS} FROM runs ORDER BY createdAt DESC`
+  ).map(toSummary);
+}
+
+async function getRunSummary(id: string): Promise<AuditRunSummary | null> {
+  const db = await getRunsDb();
+  const [row] = query(db, `SELECT ${SUMMARY_COLUMNS} FROM runs WHERE id = ?`, [
+    id,
+  ]);
+  return row ? toSummary(row) : null;
+}
+
+export async function getRun(id: string): Promise<AuditRun | null> {
+  const db = await getRunsDb();
+  const [row] = query(
+    db,
+    `SELECT ${SUMMARY_COLUMNS}, questions FROM runs WHERE id = ?`,
+    [id]
+  );
+  if (!row) return null;
+  const results = query(
+    db,
+    `SELECT result FROM run_results WHERE runId = ? ORDER BY position`,
+    [id]
+  ).map((r) => JSON.parse(String(r.result)) as CheckResult);
+  const trail = query(
+    db,
+    `SELECT id, questionId, reviewer, at, action FROM review_events
+     WHERE runId = ? ORDER BY id`,
+    [id]
+  ).map(toEvent);
+  return {
+    ...toSummary(row),
+    questions: JSON.parse(String(row.questions)) as Question[],
+    results,
+    reviews: foldReviews(trail),
+    trail,
+  };
+}
+
+function toEvent(row: Record<string, SqlValue>): ReviewEvent {
+  return {
+    id: Number(row.id),
+    questionId: row.questionId === null ? undefined : String(row.questionId),
+    reviewer: String(row.reviewer),
+    at: String(row.at),
+    action: JSON.parse(String(row.action)) as ReviewAction,
+  };
+}
+
+function assertUnlocked(summary: AuditRunSummary) {
+  if (summary.signedOffAt) {
+    throw new RunConflictError(
+      `Run was signed off by ${summary.signedOffBy} and is locked`
+    );
+  }
+}
+
+// Appends one reviewer action. Returns null when there is no such run.
+export async function addReviewEvent(
+  runId: string,
+  input: { questionId?: string; reviewer: string; action: ReviewAction }
+): Promise<ReviewEvent | null> {
+  const summary = await getRunSummary(runId);
+  if (!summary) return null;
+  assertUnlocked(summary);
+
+  const db = await getRunsDb();
+  const at = new Date().toISOString();
+  db.run(
+    `INSERT INTO review_events (runId, questionId, reviewer, at, type, action)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      runId,
+      input.questionId ?? null,
+      input.reviewer,
+      at,
+      input.action.type,
+      JSON.stringify(input.action),
+    ]
+  );
+  const id = Number(db.exec("SELECT last_insert_rowid()")[0].values[0][0]);
+  db.run(`UPDATE runs SET updatedAt = ? WHERE id = ?`, [at, runId]);
+  save(db);
+  return { id, ...input, at };
+}
+
+// Locks the run. Every question must have a result (a cancelled or failed
+// run cannot be signed off) and every result must have been accepted or
+// overridden.
+export async function signOffRun(
+  runId: string,
+  reviewer: string
+): Promise<AuditRunSummary | null> {
+  const summary = await getRunSummary(runId);
+  if (!summary) return null;
+  assertUnlocked(summary);
+  if (summary.status === "running") {
+    throw new RunConflictError("Run is still in progress");
+  }
+  if (summary.resultCount < summary.questionCount) {
+    const run = (await getRun(runId))!;
+    const checked = new Set(run.results.map((r) => r.questionId));
+    const missing = run.questions
+      .filter((q) => !checked.has(q.id))
+      .map((q) => q.number ?? q.id);
+    throw new RunConflictError(
+      `Run is ${summary.status}: ${missing.length} of ${summary.questionCount} questions were never checked (${missing.slice(0, 10).join(", ")}${missing.length > 10 ? ", ..." : ""}). Re-run them before signing off.`
+    );
+  }
+  if (summary.reviewedCount < summary.resultCount) {
+    throw new RunConflictError(
+      `${summary.resultCount - summary.reviewedCount} results still need review`
+    );
+  }
+
+  await addReviewEvent(runId, { reviewer, action: { type: "sign-off" } });
+  const db = await getRunsDb();
+  const at = new Date().toISOString();
+  db.run(
+    `UPDATE runs SET signedOffBy = ?, signedOffAt = ?, updatedAt = ? WHERE id = ?`,
+    [reviewer, at, at, runId]
+  );
+  save(db);
+  return getRunSummary(runId);
+}
+
+export async function renameRun(
+  id: string,
+  name: string
+): Promise<AuditRunSummary | null> {
+  const summary = await getRunSummary(id);
+  if (!summary) return null;
+  assertUnlocked(summary);
+  const db = await getRunsDb();
+  db.run(`UPDATE runs SET name = ?, updatedAt = ? WHERE id = ?`, [
+    name,
+    new Date().toISOString(),
+    id,
+  ]);
+  save(db);
+  return getRunSummary(id);
+}
+
+// Returns false when there was no such run. Runs with review events are
+// kept with their trail, signed off or not.
+export async function deleteRun(id: string): Promise<boolean> {
+  const summary = await getRunSummary(id);
+  if (!summary) return false;
+  assertUnlocked(summary);
+  const db = await getRunsDb();
+  const [{ n }] = query(
+    db,
+    `SELECT count(*) AS n FROM review_events WHERE runId = ?`,
+    [id]
+  );
+  if (Number(n)) {
+    throw new RunConflictError(
+      `Run has ${n} review event(s); reviewed runs cannot be deleted`
+    );
+  }
+  db.run(`DELETE FROM runs WHERE id = ?`, [id]);
+  db.run(`DELETE FROM run_results WHERE runId = ?`, [id]);
+  save(db);
+  return true;
+}
@@ -0,0 +1,58 @@
+import fs from "node:fs";
+import path from "node:path";
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+
+// sql.js databases live in memory; writers export them back to disk. The
+// wasm build has no FTS5, so pages_fts is unusable here; plain tables work.
+
+const DB_PATH = path.join(process.cwd(), "public", "policies.db");
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+export function getSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJs)
+    sqlJs = initSqlJs({
+      locateFile: (f) =>
+        path.join(process.cwd(), "node_modules", "sql.js", "dist", f),
+    });
+  return sqlJs;
+}
+
+// Read-only copy of public/policies.db; null when it has not been built
+export async function openPoliciesDb(): Promise<Database | null> {
+  if (!fs.existsSync(DB_PATH)) {
+    console.warn(`WARNING: ${DB_PATH} not found.`);
+    return null;
+  }
+  const SQL = await getSqlJs();
+  return new SQL.Database(fs.readFileSync(DB_PATH));
+}
+
+export function hasTable(db: Database, name: string): boolean {
+  const r = db.exec(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [name]
+  );
+  return r.length > 0;
+}
+
+let lastIngest: Promise<string | undefined> | null = null;
+
+// finishedAt of the latest build:db run, identifying the indexed corpus
+export function getLastIngestAt(): Promise<string | undefined> {
+  if (!lastIngest) lastIngest = loadLastIngestAt();
+  return lastIngest;
+}
+
+async function loadLastIngestAt(): Promise<string | undefined> {
+  const db = await openPoliciesDb();
+  if (!db) return undefined;
+  try {
+    if (!hasTable(db, "ingest_runs")) return undefined;
+    const r = db.exec("SELECT max(finishedAt) FROM ingest_runs");
+    const v = r[0]?.values[0]?.[0];
+    return typeof v === "string" ? v : undefined;
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,91 @@
+import type { z } from "zod";
+import type { Provider } from "./providers";
+
+// Model replies validated against zod schemas. Calls ask for JSON mode; a
+// reply that fails to parse or validate is logged with the raw text and
+// sent back once with the error so the model can correct it.
+
+// Reply still invalid after the repair round-trip
+export class SchemaValidationError extends Error {
+  constructor(
+    message: string,
+    readonly raw: string
+  ) {
+    super(message);
+  }
+}
+
+// JSON mode replies are bare JSON; others may wrap it in a code fence or
+// a sentence, so fall back to the outermost {...}
+function parseJson(text: string): unknown {
+  const t = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return JSON.parse(t);
+  } catch (err) {
+    const start = t.indexOf("{");
+    const end = t.lastIndexOf("}");
+    if (start < 0 || end <= start) throw err;
+    return JSON.parse(t.slice(start, end + 1));
+  }
+}
+
+function validate<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  raw: string
+): { data: T } | { error: string } {
+  let json: unknown;
+  try {
+    json = parseJson(raw);
+  } catch (err) {
+    return {
+      error: `not valid JSON (${err instanceof Error ? err.message : String(err)})`,
+    };
+  }
+  const r = schema.safeParse(json);
+  if (r.success) return { data: r.data };
+  return {
+    error: r.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; "),
+  };
+}
+
+// Transport errors propagate; `label` names the call in logs. An aborted
+// `signal` throws before either model call.
+export async function generateStructured<T>(
+  provider: Provider,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  opts: { label: string; temperature?: number; signal?: AbortSignal }
+): Promise<T> {
+  const gen = { temperature: opts.temperature, json: true };
+  opts.signal?.throwIfAborted();
+  const raw = await provider.generateJson(prompt, gen);
+  const first = validate(schema, raw);
+  if ("data" in first) return first.data;
+  console.warn(
+    `${opts.label}: invalid model output (${first.error}); asking for a repair. Raw response:\n${raw}`
+  );
+
+  const repairPrompt = `${prompt}
+
+Your previous reply was:
+${raw}
+
+It is invalid: ${first.error}
+Reply again with corrected JSON only, following the format above.`;
+  opts.signal?.throwIfAborted();
+  const repaired = await provider.generateJson(repairPrompt, gen);
+  const second = validate(schema, repaired);
+  if ("data" in second) return second.data;
+  console.error(
+    `${opts.label}: repaired output still invalid (${second.error}). Raw response:\n${repaired}`
+  );
+  throw new SchemaValidationError(
+    `${opts.label}: invalid model output: ${second.error}`,
+    repaired
+  );
+}
@@ -1,5 +1,232 @@
-// Audit question extracted from the uploaded PDF
+// Audit question extracted from the uploaded questionnaire
 export type Question = {
   id: string;
   text: string;
+  number?: string; // as printed in the questionnaire, e.g. "3.2.a"
+  section?: string; // enclosing section header
+  page?: number; // questionnaire page the question starts on
+  references?: string[]; // cited regulations, e.g. "APL 21-004", "Exhibit A, Attachment 4"
+};
+
+// Compliance verdict for one question. "Undetermined" means the check could
+// not be completed (see UndeterminedReason), not that the policy is silent.
+export type Status = "Met" | "Partially Met" | "Not Met" | "Undetermined";
+
+export type UndeterminedReason =
+  | "EMBEDDING_FAILED" // query embedding call failed
+  | "NO_PAGES" // retrieval found no policy text to judge against
+  | "LLM_FAILED" // decision call failed
+  | "RETRIES_EXHAUSTED" // provider still rate-limited or down after every retry
+  | "CIRCUIT_OPEN" // provider calls paused after repeated failures
+  | "INVALID_RESPONSE"; // model answered with an unusable verdict
+
+// Result of matching a cited snippet against the page index
+export type CitationCheck = {
+  status: "verified" | "approximate" | "unverified";
+  score: number; // 0..1 share of snippet words found on the page
+  citedPage?: number; // page the model cited, when the text was found elsewhere
+  start?: number; // char offsets of the match in the page text
+  end?: number;
+};
+
+export type Evidence = {
+  snippet: string;
+  fileName: string;
+  page: number;
+  covers?: string; // element of the requirement this snippet satisfies
+  verification?: CitationCheck;
+  policyId?: string; // parsed from fileName, e.g. "AA.1207b"
+  effectiveDate?: string; // yyyy-mm-dd
+};
+
+// Debug record of a page or chunk produced by hybrid retrieval
+export type RetrievalHit = {
+  fileName: string;
+  page: number;
+  chunk?: number; // set for chunk-level hits, with char offsets in the page
+  start?: number;
+  end?: number;
+  retrievers: Array<"vector" | "keyword">;
+  vectorRank?: number;
+  keywordRank?: number;
+  score: number; // fused reciprocal-rank score
+};
+
+// Inputs to a verdict's confidence, each 0..1 (see lib/confidence.ts);
+// a factor that does not apply is left out
+export type ConfidenceFactors = {
+  model: number; // the model's self-reported confidence
+  retrieval?: number; // similarity of the best retrieved passage
+  citations?: number; // how much of the cited text was found on its page
+};
+
+// Verdict for one atomic element of a decomposed requirement
+export type ElementResult = {
+  text: string;
+  status: Status;
+  reason?: UndeterminedReason;
+  citations?: Evidence[];
+  rationale?: string; // cites excerpts as "[3: file.pdf p.12]"
+  confidence?: number; // 0..1, unset when Undetermined
+  confidenceCalibrated?: boolean; // confidence is P(verdict correct)
+  confidenceFactors?: ConfidenceFactors;
+  retrieval?: RetrievalHit[]; // only with { debug: true }
+};
+
+export type CheckResult = {
+  questionId: string;
+  status: Status;
+  reason?: UndeterminedReason; // set only when status is "Undetermined"
+  citations?: Evidence[]; // supporting snippets, possibly across policies
+  elements?: ElementResult[]; // per-element breakdown when decomposed
+  rationale?: string;
+  confidence?: number; // 0..1, of the weakest decided element
+  confidenceCalibrated?: boolean;
+  confidenceFactors?: ConfidenceFactors; // single-element requirements only
+};
+
+// What a run was checked against, so results can be traced to a corpus
+export type CorpusVersion = {
+  embeddingModel: string;
+  embeddingsBuiltAt?: string;
+  policiesIngestedAt?: string; // latest build:db run
+};
+
+export type RunStatus = "running" | "complete" | "cancelled" | "failed";
+
+export type AuditRunSummary = {
+  id: string;
+  name: string;
+  questionnaireName?: string; // uploaded file name
+  questionnaireHash?: string; // sha256 of the uploaded file
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  asOf?: string;
+  provider: string;
+  model: string;
+  corpus: CorpusVersion;
+  questionCount: number;
+  resultCount: number;
+  reviewedCount: number; // results accepted or overridden
+  signedOffBy?: string; // set once the run is signed off and locked
+  signedOffAt?: string;
+};
+
+export type AuditRun = AuditRunSummary & {
+  questions: Question[];
+  results: CheckResult[]; // in question order, as the checker produced them
+  reviews: Record<string, ResultReview>; // questionId -> current review
+  trail: ReviewEvent[]; // every reviewer action, oldest first
+};
+
+// ========== Human review ==========
+// Reviewer actions are stored as an append-only event log; the current
+// review of each result is derived from it (see lib/review.ts).
+export type ReviewAction =
+  | { type: "accept" } // agree with the automated verdict
+  | { type: "override"; status: Status; justification: string }
+  | { type: "citations"; citations: Evidence[] } // replaces the evidence
+  | { type: "comment"; text: string }
+  | { type: "sign-off" }; // run-level, locks the run
+
+export type ReviewEvent = {
+  id: number;
+  questionId?: string; // unset for run-level actions
+  reviewer: string;
+  at: string;
+  action: ReviewAction;
+};
+
+export type ReviewComment = { reviewer: string; at: string; text: string };
+
+export type ResultReview = {
+  state: "pending" | "accepted" | "overridden";
+  status?: Status; // reviewer's status when overridden
+  justification?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  citations?: Evidence[]; // reviewer-edited evidence, if changed
+  comments: ReviewComment[];
+};
+
+// One page window of /api/llm-extract-questions. Failed windows are
+// reported so missing questions are visible rather than silently dropped.
+export type ExtractionChunk = {
+  index: number;
+  firstPage: number;
+  lastPage: number;
+  status: "ok" | "failed";
+  count?: number; // questions found in the window, before merging
+  error?: string;
+};
+
+// /api/check streams one JSON event per line (NDJSON). `done` counts the
+// questions finished so far; results arrive in completion order.
+export type CheckStreamEvent =
+  | { type: "start"; runId: string; total: number }
+  | {
+      type: "result";
+      index: number; // position of the question in the request
+      result: CheckResult;
+      done: number;
+      total: number;
+    }
+  | { type: "done"; done: number; total: number }
+  | { type: "error"; error: string };
+
+// A set of results to compare: a saved run, an exported results file, or
+// any { questions, results } pair for the same questionnaire
+export type ResultSet = {
+  name?: string;
+  questions: Question[];
+  results: CheckResult[];
+};
+
+export type CitedLocation = {
+  fileName: string;
+  page: number;
+  policyId?: string;
+};
+
+// Evidence for the same requirement text found somewhere else
+export type MovedEvidence = {
+  snippet: string; // as cited in the later run
+  covers?: string;
+  from: CitedLocation;
+  to: CitedLocation;
+};
+
+export type QuestionChange =
+  | "flipped" // status changed
+  | "evidence" // same status, evidence moved or new documents cited
+  | "added" // only in the later run
+  | "removed" // only in the earlier run
+  | "unchanged";
+
+export type QuestionDiff = {
+  text: string;
+  change: QuestionChange;
+  before?: { questionId: string; status: Status };
+  after?: { questionId: string; status: Status };
+  moved: MovedEvidence[];
+  newDocuments: string[]; // cited for this question only in the later run
+  droppedDocuments: string[];
+};
+
+export type RunComparison = {
+  before: { name?: string; questionCount: number };
+  after: { name?: string; questionCount: number };
+  summary: {
+    matched: number;
+    flipped: number;
+    evidenceChanged: number;
+    added: number;
+    removed: number;
+    transitions: Record<string, number>; // "Met → Not Met" -> count
+  };
+  newDocuments: string[]; // cited anywhere in the later run only
+  droppedDocuments: string[];
+  questions: QuestionDiff[]; // later run's order, then removed questions
 };
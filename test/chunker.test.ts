@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chunkText, type ChunkOptions } from "../src/lib/chunker";
+
+const OPTS: ChunkOptions = { maxChars: 200, minChars: 60, overlap: 40 };
+
+const POLICY =
+  "I. PURPOSE This policy describes member notices. " +
+  "II. POLICY A. The MCP shall notify the Member in writing within fourteen (14) calendar days. " +
+  "B. Notices shall be translated into threshold languages. " +
+  "III. PROCEDURE 1. The Grievance unit logs each request. " +
+  "2. The Grievance unit sends an acknowledgment letter within five (5) calendar days. " +
+  "3. Resolution letters are sent within thirty (30) calendar days of receipt.";
+
+describe("chunkText", () => {
+  const chunks = chunkText(POLICY, OPTS);
+
+  it("returns offsets into the page text", () => {
+    for (const c of chunks) assert.equal(POLICY.slice(c.start, c.end), c.text);
+  });
+
+  it("covers the whole page in order", () => {
+    assert.equal(chunks[0].start, 0);
+    assert.equal(chunks.at(-1)!.end, POLICY.length);
+    for (let i = 1; i < chunks.length; i++) {
+      assert.ok(chunks[i].start > chunks[i - 1].start);
+      assert.ok(chunks[i].start <= chunks[i - 1].end);
+    }
+  });
+
+  it("keeps chunks within maxChars plus overlap", () => {
+    assert.ok(chunks.length > 1);
+    for (const c of chunks)
+      assert.ok(c.text.length <= OPTS.maxChars + OPTS.overlap);
+  });
+
+  it("starts a new chunk at a major heading", () => {
+    const texts = chunkText(POLICY, { ...OPTS, overlap: 0 }).map((c) => c.text);
+    assert.equal(texts.length, 3);
+    assert.match(texts[1], /^III\. PROCEDURE 1\./);
+  });
+
+  it("returns a short page as one chunk and nothing for blank text", () => {
+    assert.deepEqual(chunkText("A short page.", OPTS), [
+      { start: 0, end: 13, text: "A short page." },
+    ]);
+    assert.deepEqual(chunkText("   ", OPTS), []);
+  });
+});
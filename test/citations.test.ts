@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { locateSnippet, verifyCitation } from "../src/lib/citations";
+import type { PageFetcher } from "../src/lib/db";
+
+const FILE = "GG.1500_v20240101.pdf";
+
+const PAGES: Record<number, string> = {
+  1: "Purpose. This policy describes how the MCP handles grievances.",
+  2: "The MCP shall notify the Member in writing within fourteen (14) calendar days of the decision.",
+  3: "Members may request a State Hearing after the appeal process.",
+};
+
+function fetcher(pages: Record<number, string>): PageFetcher {
+  return {
+    get: (fileName, page) =>
+      fileName === FILE && pages[page]
+        ? { fileName, relativePath: "", page, text: pages[page] }
+        : undefined,
+  };
+}
+
+const db = fetcher(PAGES);
+
+describe("verifyCitation", () => {
+  it("verifies a verbatim snippet on the cited page", () => {
+    const snippet =
+      "notify the Member in writing within fourteen (14) calendar days";
+    const ev = verifyCitation({ snippet, fileName: FILE, page: 2 }, db);
+    assert.equal(ev.page, 2);
+    assert.equal(ev.verification?.status, "verified");
+    assert.equal(ev.verification?.score, 1);
+    assert.equal(ev.verification?.citedPage, undefined);
+    const { start, end } = ev.verification!;
+    assert.equal(PAGES[2].slice(start, end), snippet);
+  });
+
+  it("ignores case and punctuation", () => {
+    const ev = verifyCitation(
+      {
+        snippet: "THE MCP SHALL NOTIFY THE MEMBER, IN WRITING",
+        fileName: FILE,
+        page: 2,
+      },
+      db
+    );
+    assert.equal(ev.verification?.status, "verified");
+  });
+
+  it("moves a citation to the neighbouring page that holds the text", () => {
+    const ev = verifyCitation(
+      {
+        snippet: "Members may request a State Hearing",
+        fileName: FILE,
+        page: 2,
+      },
+      db
+    );
+    assert.equal(ev.page, 3);
+    assert.equal(ev.verification?.status, "verified");
+    assert.equal(ev.verification?.citedPage, 2);
+  });
+
+  it("rates a loose paraphrase as approximate", () => {
+    const ev = verifyCitation(
+      {
+        snippet: "The MCP must notify the Member within fourteen days",
+        fileName: FILE,
+        page: 2,
+      },
+      db
+    );
+    assert.equal(ev.verification?.status, "approximate");
+    assert.ok(ev.verification!.score >= 0.6 && ev.verification!.score < 0.9);
+  });
+
+  it("leaves an invented snippet unverified on the cited page", () => {
+    const ev = verifyCitation(
+      {
+        snippet: "Providers receive quarterly capitation reports by email",
+        fileName: FILE,
+        page: 2,
+      },
+      db
+    );
+    assert.equal(ev.page, 2);
+    assert.equal(ev.verification?.status, "unverified");
+    assert.equal(ev.verification?.start, undefined);
+  });
+
+  it("is unverified when the cited file has no pages", () => {
+    const ev = verifyCitation(
+      { snippet: "anything", fileName: "missing.pdf", page: 1 },
+      db
+    );
+    assert.deepEqual(ev.verification, { status: "unverified", score: 0 });
+  });
+});
+
+describe("locateSnippet", () => {
+  it("returns the char range of the match", () => {
+    const m = locateSnippet("State Hearing", PAGES[3]);
+    assert.ok(m);
+    assert.equal(PAGES[3].slice(m.start, m.end), "State Hearing");
+  });
+
+  it("returns null below the approximate threshold", () => {
+    assert.equal(locateSnippet("capitation reports", PAGES[3]), null);
+  });
+});
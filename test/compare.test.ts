@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compareResultSets, ResultSetSchema } from "../src/lib/compare";
+
+const QUESTIONS = [
+  { id: "q_1", text: "Does the P&P require acknowledgment within 5 days?" },
+];
+
+describe("ResultSetSchema", () => {
+  it("reads a legacy `evidence` result as its citation", () => {
+    const set = ResultSetSchema.parse({
+      questions: QUESTIONS,
+      results: [
+        {
+          questionId: "q_1",
+          status: "Met",
+          evidence: { snippet: "within five days", fileName: "a.pdf", page: 2 },
+        },
+      ],
+    });
+    assert.deepEqual(set.results[0].citations, [
+      { snippet: "within five days", fileName: "a.pdf", page: 2 },
+    ]);
+    assert.equal("evidence" in set.results[0], false);
+  });
+
+  it("rejects questions without text and unknown statuses", () => {
+    const bad = [
+      { questions: [{ id: "q_1" }], results: [] },
+      {
+        questions: QUESTIONS,
+        results: [{ questionId: "q_1", status: "Compliant" }],
+      },
+      { questions: QUESTIONS },
+    ];
+    for (const set of bad)
+      assert.equal(ResultSetSchema.safeParse(set).success, false);
+  });
+});
+
+describe("compareResultSets", () => {
+  it("flags a status flip between results without citations", () => {
+    const set = (status: "Met" | "Not Met") =>
+      ResultSetSchema.parse({
+        questions: QUESTIONS,
+        results: [{ questionId: "q_1", status }],
+      });
+    const c = compareResultSets(set("Not Met"), set("Met"));
+    assert.equal(c.summary.flipped, 1);
+    assert.deepEqual(c.summary.transitions, { "Not Met → Met": 1 });
+  });
+});
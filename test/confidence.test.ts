@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  calibrate,
+  combineConfidence,
+  confidenceBand,
+  confidenceFactors,
+  fitCalibration,
+  requirementConfidence,
+} from "../src/lib/confidence";
+import type { Evidence } from "../src/types";
+
+const cite = (
+  status: "verified" | "approximate" | "unverified",
+  score: number
+): Evidence => ({
+  snippet: "s",
+  fileName: "f.pdf",
+  page: 1,
+  verification: { status, score },
+});
+
+describe("confidenceFactors", () => {
+  it("averages citation scores, counting unverified ones as 0", () => {
+    const f = confidenceFactors({
+      status: "Met",
+      selfReport: 0.9,
+      topSimilarity: 0.6,
+      citations: [cite("verified", 1), cite("unverified", 0.4)],
+    });
+    assert.deepEqual(f, { model: 0.9, retrieval: 0.6, citations: 0.5 });
+  });
+
+  it("leaves citations out for Not Met and defaults the self-report", () => {
+    const f = confidenceFactors({ status: "Not Met", citations: [] });
+    assert.deepEqual(f, {
+      model: 0.5,
+      retrieval: undefined,
+      citations: undefined,
+    });
+  });
+
+  it("clamps out-of-range inputs", () => {
+    const f = confidenceFactors({
+      status: "Met",
+      selfReport: 1.2,
+      topSimilarity: -0.1,
+      citations: [],
+    });
+    assert.equal(f.model, 1);
+    assert.equal(f.retrieval, 0);
+    assert.equal(f.citations, 0);
+  });
+});
+
+describe("combineConfidence", () => {
+  it("weights the factors present", () => {
+    assert.equal(
+      combineConfidence({ model: 0.9, retrieval: 0.6, citations: 0.5 }),
+      0.72
+    );
+    // 0.5 * 0.8 + 0.2 * 0.5, over 0.7
+    assert.equal(combineConfidence({ model: 0.8, retrieval: 0.5 }), 0.71);
+    assert.equal(combineConfidence({ model: 0.3 }), 0.3);
+  });
+});
+
+describe("requirementConfidence", () => {
+  it("is the weakest decided element", () => {
+    assert.equal(
+      requirementConfidence([
+        { status: "Met", confidence: 0.9 },
+        { status: "Partially Met", confidence: 0.6 },
+        { status: "Undetermined" },
+      ]),
+      0.6
+    );
+    assert.equal(
+      requirementConfidence([{ status: "Undetermined" }]),
+      undefined
+    );
+  });
+});
+
+describe("confidenceBand", () => {
+  it("splits at 0.5 and 0.75", () => {
+    assert.deepEqual([0.49, 0.5, 0.74, 0.75].map(confidenceBand), [
+      "low",
+      "medium",
+      "medium",
+      "high",
+    ]);
+  });
+});
+
+describe("fitCalibration", () => {
+  // Verdicts are right 30% of the time at score 0.2 and 90% at score 0.8
+  const samples = [0.2, 0.8].flatMap((score) =>
+    Array.from({ length: 50 }, (_, i) => ({
+      score,
+      correct: i < (score < 0.5 ? 15 : 45),
+    }))
+  );
+
+  it("maps scores to observed accuracy", () => {
+    const cal = fitCalibration(samples);
+    assert.equal(cal.cases, 100);
+    assert.ok(Math.abs(calibrate(0.2, cal) - 0.3) <= 0.02);
+    assert.ok(Math.abs(calibrate(0.8, cal) - 0.9) <= 0.02);
+  });
+
+  it("stays short of 0 and 1 on a separable set", () => {
+    const cal = fitCalibration([
+      { score: 0.9, correct: true },
+      { score: 0.8, correct: true },
+      { score: 0.3, correct: false },
+    ]);
+    assert.ok(calibrate(1, cal) < 1);
+    assert.ok(calibrate(0, cal) > 0);
+    assert.ok(calibrate(0.9, cal) > calibrate(0.3, cal));
+  });
+
+  it("leaves scores raw without a calibration", () => {
+    assert.equal(calibrate(0.37, null), 0.37);
+  });
+});
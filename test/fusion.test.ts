@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fuseRankings, type Ranked } from "../src/lib/fusion";
+
+const CFG = { topK: 10, rrfK: 60, vectorWeight: 1, keywordWeight: 1 };
+
+const chunk = (
+  fileName: string,
+  page: number,
+  n: number,
+  start: number,
+  end: number
+): Ranked => ({ fileName, page, chunk: n, start, end });
+const page = (fileName: string, p: number): Ranked => ({ fileName, page: p });
+
+describe("fuseRankings", () => {
+  it("scores a page found by both retrievers above single-retriever pages", () => {
+    const hits = fuseRankings(
+      CFG,
+      [chunk("a.pdf", 1, 0, 0, 100), chunk("b.pdf", 4, 0, 0, 100)],
+      [page("c.pdf", 2), page("b.pdf", 4)]
+    );
+    assert.deepEqual(
+      hits.map((h) => `${h.fileName}#${h.page}`),
+      ["b.pdf#4", "a.pdf#1", "c.pdf#2"]
+    );
+    const [both] = hits;
+    assert.deepEqual(both.retrievers, ["vector", "keyword"]);
+    assert.equal(both.vectorRank, 2);
+    assert.equal(both.keywordRank, 2);
+    assert.equal(both.score, 1 / 62 + 1 / 62);
+  });
+
+  it("ranks a page where its best chunk is and keeps all its chunks", () => {
+    const hits = fuseRankings(
+      CFG,
+      [
+        chunk("a.pdf", 1, 2, 200, 300),
+        chunk("b.pdf", 1, 0, 0, 100),
+        chunk("a.pdf", 1, 0, 0, 100),
+      ],
+      []
+    );
+    assert.deepEqual(
+      hits.map((h) => [h.fileName, h.chunk, h.vectorRank]),
+      [
+        ["a.pdf", 2, 1],
+        ["a.pdf", 0, 1],
+        ["b.pdf", 0, 2],
+      ]
+    );
+    assert.equal(hits[0].score, hits[1].score);
+  });
+
+  it("expands keyword-only pages as whole pages", () => {
+    const [hit] = fuseRankings(CFG, [], [page("c.pdf", 7)]);
+    assert.equal(hit.start, undefined);
+    assert.equal(hit.chunk, undefined);
+    assert.deepEqual(hit.retrievers, ["keyword"]);
+  });
+
+  it("applies retriever weights", () => {
+    const hits = fuseRankings(
+      { ...CFG, keywordWeight: 3 },
+      [chunk("a.pdf", 1, 0, 0, 100)],
+      [page("c.pdf", 2)]
+    );
+    assert.equal(hits[0].fileName, "c.pdf");
+    assert.equal(hits[0].score, 3 / 61);
+  });
+
+  it("keeps the top k pages, not chunks", () => {
+    const hits = fuseRankings(
+      { ...CFG, topK: 1 },
+      [chunk("a.pdf", 1, 0, 0, 100), chunk("a.pdf", 1, 1, 100, 200)],
+      [page("c.pdf", 2)]
+    );
+    assert.deepEqual(
+      hits.map((h) => `${h.fileName}#${h.page}@${h.chunk}`),
+      ["a.pdf#1@0", "a.pdf#1@1"]
+    );
+  });
+});
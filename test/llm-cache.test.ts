@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  cacheFromEnv,
+  CacheMissError,
+  createLlmCache,
+  withCache,
+} from "../src/lib/llm-cache";
+import { createFakeProvider } from "../src/lib/providers";
+
+let dir: string;
+let calls: string[];
+const counting = () =>
+  createFakeProvider({
+    dim: 16,
+    respond: (prompt) => {
+      calls.push(prompt);
+      return `reply to ${prompt}`;
+    },
+  });
+
+describe("withCache", () => {
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "llm-cache-"));
+    calls = [];
+  });
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it("records a miss and answers repeats from disk", async () => {
+    const cache = createLlmCache({ mode: "record", dir });
+    const provider = withCache(counting(), cache);
+    assert.equal(
+      await provider.generateJson("a", { json: true }),
+      "reply to a"
+    );
+    assert.equal(
+      await provider.generateJson("a", { json: true }),
+      "reply to a"
+    );
+    assert.deepEqual(calls, ["a"]);
+    assert.deepEqual(cache.stats, { hits: 1, misses: 1, writes: 1 });
+
+    // A fresh process reads the same entry
+    const replay = withCache(
+      counting(),
+      createLlmCache({ mode: "replay", dir })
+    );
+    assert.equal(await replay.generateJson("a", { json: true }), "reply to a");
+    assert.deepEqual(calls, ["a"]);
+  });
+
+  it("keys entries by generation parameters", async () => {
+    const provider = withCache(
+      counting(),
+      createLlmCache({ mode: "record", dir })
+    );
+    await provider.generateJson("a", { temperature: 0 });
+    await provider.generateJson("a", { temperature: 0.5 });
+    assert.deepEqual(calls, ["a", "a"]);
+  });
+
+  it("round-trips embeddings", async () => {
+    const base = counting();
+    const provider = withCache(base, createLlmCache({ mode: "record", dir }));
+    const first = await provider.embedQuery("notice within 14 days");
+    const again = await provider.embedQuery("notice within 14 days");
+    assert.ok(again instanceof Float32Array);
+    assert.deepEqual(again, first);
+    assert.deepEqual(first, await base.embedQuery("notice within 14 days"));
+  });
+
+  it("throws CacheMissError on a replay miss", async () => {
+    const provider = withCache(
+      counting(),
+      createLlmCache({ mode: "replay", dir })
+    );
+    await assert.rejects(provider.generateJson("a"), CacheMissError);
+    assert.deepEqual(calls, []);
+  });
+
+  it("leaves the provider alone in bypass mode", () => {
+    const base = counting();
+    assert.equal(
+      withCache(base, createLlmCache({ mode: "bypass", dir })),
+      base
+    );
+  });
+});
+
+describe("cacheFromEnv", () => {
+  it("defaults to bypass and rejects unknown modes", () => {
+    assert.equal(cacheFromEnv({}).mode, "bypass");
+    assert.equal(cacheFromEnv({ LLM_CACHE: "Replay" }).mode, "replay");
+    assert.throws(() => cacheFromEnv({ LLM_CACHE: "sometimes" }));
+  });
+});
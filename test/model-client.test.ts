@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it, mock } from "node:test";
+import {
+  CircuitOpenError,
+  createModelClient,
+  ProviderHttpError,
+  RetriesExhaustedError,
+} from "../src/lib/model-client";
+
+const FAST = {
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  timeoutMs: 1000,
+  ratePerSec: 0,
+  breakerThreshold: 2,
+  breakerCooldownMs: 50,
+};
+
+// Serves the given responses in order, the last one repeatedly
+function serve(responses: Array<() => Response>) {
+  let n = 0;
+  return mock.method(globalThis, "fetch", async () =>
+    responses[Math.min(n++, responses.length - 1)]()
+  );
+}
+
+const ok = () => Response.json({ ok: true });
+const status = (code: number, headers?: Record<string, string>) => () =>
+  new Response("error", { status: code, headers });
+
+const post = (client: ReturnType<typeof createModelClient>) =>
+  client.postJson("test", "http://model.test/v1", {}, {});
+
+describe("createModelClient", () => {
+  beforeEach(() => {
+    mock.restoreAll();
+    mock.method(console, "warn", () => {});
+    mock.method(console, "error", () => {});
+  });
+
+  it("retries 5xx responses until one succeeds", async () => {
+    const fetch = serve([status(503), status(502), ok]);
+    assert.deepEqual(await post(createModelClient(FAST)), { ok: true });
+    assert.equal(fetch.mock.callCount(), 3);
+  });
+
+  it("does not retry a 400", async () => {
+    const fetch = serve([status(400)]);
+    await assert.rejects(
+      post(createModelClient(FAST)),
+      (err) => err instanceof ProviderHttpError && err.status === 400
+    );
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+
+  it("waits at least Retry-After", async () => {
+    serve([status(429, { "retry-after": "0.04" }), ok]);
+    const started = Date.now();
+    await post(createModelClient({ ...FAST, maxDelayMs: 1000 }));
+    assert.ok(Date.now() - started >= 35);
+  });
+
+  it("gives up after maxRetries with the last error as cause", async () => {
+    const fetch = serve([status(500)]);
+    await assert.rejects(
+      post(createModelClient(FAST)),
+      (err) =>
+        err instanceof RetriesExhaustedError &&
+        err.cause instanceof ProviderHttpError
+    );
+    assert.equal(fetch.mock.callCount(), FAST.maxRetries + 1);
+  });
+
+  it("opens the breaker after repeated failures and recovers after the cooldown", async () => {
+    const fetch = serve([status(503)]);
+    const client = createModelClient(FAST);
+    for (let i = 0; i < FAST.breakerThreshold; i++)
+      await assert.rejects(post(client), RetriesExhaustedError);
+    const before = fetch.mock.callCount();
+    await assert.rejects(post(client), CircuitOpenError);
+    assert.equal(fetch.mock.callCount(), before);
+
+    await new Promise((r) => setTimeout(r, FAST.breakerCooldownMs + 10));
+    serve([ok]);
+    assert.deepEqual(await post(client), { ok: true });
+    assert.deepEqual(await post(client), { ok: true });
+  });
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  filesInEffect,
+  parsePolicyFileName,
+  type PolicyMeta,
+} from "../src/lib/policy-meta";
+
+describe("parsePolicyFileName", () => {
+  it("reads the id, CEO approval and version dates", () => {
+    const m = parsePolicyFileName("AA.1207b_CEO20241113_v20241107.pdf")!;
+    assert.equal(m.policyId, "AA.1207b");
+    assert.equal(m.department, "AA");
+    assert.equal(m.number, "1207");
+    assert.equal(m.suffix, "b");
+    assert.equal(m.ceoApprovalDate, "2024-11-13");
+    assert.equal(m.versionDate, "2024-11-07");
+    assert.equal(m.effectiveDate, "2024-11-07");
+  });
+
+  it("collects regulator dates and unrecognised parts", () => {
+    const m = parsePolicyFileName(
+      "CMC.9002__Policy_CEO20220818_DHCS20220701_PRC20220518_v.20220501_CEO.pdf"
+    )!;
+    assert.deepEqual(m.regulatorDates, {
+      DHCS: "2022-07-01",
+      PRC: "2022-05-18",
+    });
+    assert.equal(m.versionDate, "2022-05-01");
+    assert.deepEqual(m.notes, ["Policy", "CEO"]);
+  });
+
+  it("falls back to the CEO date and rejects names without an id", () => {
+    const m = parsePolicyFileName("GG.1102_CEO20240129_no attachments.pdf")!;
+    assert.equal(m.effectiveDate, "2024-01-29");
+    assert.deepEqual(m.notes, ["no attachments"]);
+    assert.equal(parsePolicyFileName("Provider Manual 2024.pdf"), null);
+  });
+});
+
+describe("filesInEffect", () => {
+  const metas = [
+    "GG.1500_v20220101.pdf",
+    "GG.1500_v20240101.pdf",
+    "GG.1500_v20260101.pdf",
+    "AA.1207_notes.pdf",
+  ].map((f) => parsePolicyFileName(f) as PolicyMeta);
+
+  it("keeps the latest version effective on the date", () => {
+    assert.deepEqual([...filesInEffect(metas, "2025-06-30")].sort(), [
+      "AA.1207_notes.pdf",
+      "GG.1500_v20240101.pdf",
+    ]);
+  });
+
+  it("drops a policy with no version in effect yet", () => {
+    assert.deepEqual(
+      [...filesInEffect(metas, "2021-01-01")],
+      ["AA.1207_notes.pdf"]
+    );
+  });
+});
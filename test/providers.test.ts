@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeProvider, fakeEmbedding } from "../src/lib/providers";
+
+describe("fakeEmbedding", () => {
+  it("is deterministic and unit length", () => {
+    const a = fakeEmbedding("notify the Member within 14 days", 64);
+    assert.equal(a.length, 64);
+    assert.deepEqual(a, fakeEmbedding("notify the Member within 14 days", 64));
+    const norm = Math.sqrt(a.reduce((s, v) => s + v * v, 0));
+    assert.ok(Math.abs(norm - 1) < 1e-6);
+  });
+
+  it("scores shared words above unrelated text", () => {
+    const dot = (x: Float32Array, y: Float32Array) =>
+      x.reduce((s, v, i) => s + v * y[i], 0);
+    const q = fakeEmbedding("member grievance acknowledgment letter", 256);
+    const near = fakeEmbedding("the grievance acknowledgment letter", 256);
+    const far = fakeEmbedding("pharmacy formulary exceptions", 256);
+    assert.ok(dot(q, near) > dot(q, far));
+  });
+
+  it("is the zero vector for text without words", () => {
+    assert.ok(fakeEmbedding("  ...  ", 8).every((v) => v === 0));
+  });
+});
+
+describe("createFakeProvider", () => {
+  it("answers prompts with `respond` and embeds offline", async () => {
+    const provider = createFakeProvider({
+      dim: 16,
+      respond: (prompt) => JSON.stringify({ echo: prompt }),
+    });
+    assert.equal(provider.name, "fake");
+    assert.equal(provider.embedModel, "fake-embedding-16");
+    assert.equal(await provider.generateJson("hi"), '{"echo":"hi"}');
+    assert.deepEqual(
+      await provider.embedQuery("notice"),
+      await provider.embedDocument("notice")
+    );
+  });
+
+  it("replies with an empty object by default", async () => {
+    assert.equal(await createFakeProvider().generateJson("anything"), "{}");
+  });
+});
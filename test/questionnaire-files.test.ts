@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  parseCsv,
+  QuestionnaireFormatError,
+  rowsToQuestions,
+} from "../src/lib/questionnaire-files";
+
+const ROWS = parseCsv(`ID,Q,Reference
+1.1,Does the P&P require acknowledgment within 5 days?,APL 21-011
+1.2,Does the P&P describe State Hearing rights?,
+`);
+
+const parse = (opts: { questionColumn?: string; idColumn?: string }) =>
+  rowsToQuestions(ROWS, opts, { required: true });
+
+describe("rowsToQuestions", () => {
+  it("reads short column names as headers before letters", () => {
+    const out = parse({ questionColumn: "Q", idColumn: "ID" });
+    assert.deepEqual(
+      out.map((q) => q.number),
+      ["1.1", "1.2"]
+    );
+    assert.match(out[0].text, /acknowledgment/);
+    assert.deepEqual(out[0].references, ["APL 21-011"]);
+  });
+
+  it("falls back to column letters", () => {
+    const out = parse({ questionColumn: "B", idColumn: "A" });
+    assert.equal(out.length, 2);
+    assert.equal(out[1].number, "1.2");
+  });
+
+  it("rejects a column that does not exist", () => {
+    assert.throws(
+      () => parse({ questionColumn: "Requirement text" }),
+      QuestionnaireFormatError
+    );
+    assert.throws(
+      () => parse({ questionColumn: "B", idColumn: "Z" }),
+      QuestionnaireFormatError
+    );
+  });
+
+  it("rejects a question column without questions", () => {
+    assert.throws(
+      () => parse({ questionColumn: "A" }),
+      /No questions in column "A"/
+    );
+  });
+});
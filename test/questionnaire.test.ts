@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  findExplicitQuestions,
+  findReferences,
+  mergeQuestions,
+  pageWindows,
+  parseQuestionnaireLines,
+  parseQuestionnairePages,
+  toQuestions,
+} from "../src/lib/questionnaire";
+
+const AUDIT_TOOL = `SECTION 3: GRIEVANCES AND APPEALS
+3.1 Does the P&P state that the MCP sends a written acknowledgment
+within five (5) calendar days of receipt? (APL 21-011; 42 CFR § 438.406(b)(1))
+3.2 Does the P&P describe the following:
+a. The member's right to request a State Hearing?
+b. The timeframe to request a State Hearing?
+UTILIZATION MANAGEMENT
+4.1 Is prior authorization decided within 72 hours for urgent requests? (Exhibit A, Attachment 5)`;
+
+describe("parseQuestionnairePages", () => {
+  const parsed = parseQuestionnairePages([{ page: 2, text: AUDIT_TOOL }]);
+
+  it("keeps numbers, sections and pages", () => {
+    assert.deepEqual(
+      parsed.map((q) => [q.number, q.section, q.page]),
+      [
+        ["3.1", "3 GRIEVANCES AND APPEALS", 2],
+        ["3.2.a", "3 GRIEVANCES AND APPEALS", 2],
+        ["3.2.b", "3 GRIEVANCES AND APPEALS", 2],
+        ["4.1", "UTILIZATION MANAGEMENT", 2],
+      ]
+    );
+  });
+
+  it("joins continuation lines and cuts at the question mark", () => {
+    assert.equal(
+      parsed[0].text,
+      "Does the P&P state that the MCP sends a written acknowledgment within five (5) calendar days of receipt?"
+    );
+  });
+
+  it("prefixes lettered sub-items with their lead-in", () => {
+    assert.equal(
+      parsed[1].text,
+      "Does the P&P describe the following: The member's right to request a State Hearing?"
+    );
+  });
+
+  it("collects cited regulations", () => {
+    assert.deepEqual(parsed[0].references, [
+      "APL 21-011",
+      "42 CFR § 438.406(b)(1)",
+    ]);
+    assert.deepEqual(parsed[3].references, ["Exhibit A, Attachment 5"]);
+  });
+});
+
+describe("parseQuestionnaireLines", () => {
+  it("uses list numbers and headings passed alongside the text", () => {
+    const parsed = parseQuestionnaireLines([
+      { page: 1, text: "Member Notices", heading: true },
+      { page: 1, text: "Is the notice sent in writing?", number: "2.1" },
+      { page: 1, text: "Does it name the PCP?", number: "a" },
+    ]);
+    assert.deepEqual(
+      parsed.map((q) => [q.number, q.section, q.text]),
+      [
+        ["2.1", "Member Notices", "Is the notice sent in writing?"],
+        ["2.1.a", "Member Notices", "Does it name the PCP?"],
+      ]
+    );
+  });
+});
+
+describe("findReferences", () => {
+  it("returns references in order without duplicates", () => {
+    assert.deepEqual(
+      findReferences("See W&I Code § 14197.1, APL 22-005 and apl 22-005."),
+      ["W&I Code § 14197.1", "APL 22-005"]
+    );
+  });
+});
+
+describe("findExplicitQuestions", () => {
+  it("finds questions in text that lost its line breaks", () => {
+    const found = findExplicitQuestions([
+      {
+        page: 5,
+        text: "Intro text. Does the MCP notify the PCP? Is the notice translated into threshold languages?",
+      },
+    ]);
+    assert.deepEqual(
+      found.map((q) => [q.page, q.text]),
+      [
+        [5, "Does the MCP notify the PCP?"],
+        [5, "Is the notice translated into threshold languages?"],
+      ]
+    );
+  });
+});
+
+describe("pageWindows", () => {
+  const pages = [1, 2, 3, 4, 5].map((page) => ({ page, text: "x".repeat(10) }));
+
+  it("overlaps consecutive windows", () => {
+    const windows = pageWindows(pages, { size: 2, overlap: 1, maxChars: 1000 });
+    assert.deepEqual(
+      windows.map((w) => w.map((p) => p.page)),
+      [
+        [1, 2],
+        [2, 3],
+        [3, 4],
+        [4, 5],
+      ]
+    );
+  });
+
+  it("shrinks windows to the character budget", () => {
+    const windows = pageWindows(pages, { size: 5, overlap: 0, maxChars: 25 });
+    assert.deepEqual(
+      windows.map((w) => w.length),
+      [2, 2, 1]
+    );
+  });
+});
+
+describe("mergeQuestions", () => {
+  it("merges a question cut at a window edge with its full version", () => {
+    const merged = mergeQuestions([
+      [
+        {
+          text: "Does the P&P state that the MCP sends a written acknowledgment?",
+          page: 3,
+        },
+      ],
+      [
+        {
+          text: "Does the P&P state that the MCP sends a written acknowledgment within five calendar days?",
+          number: "3.1",
+          page: 4,
+          references: ["APL 21-011"],
+        },
+      ],
+    ]);
+    assert.equal(merged.length, 1);
+    assert.match(merged[0].text, /within five calendar days/);
+    assert.equal(merged[0].number, "3.1");
+    assert.equal(merged[0].page, 3);
+    assert.deepEqual(merged[0].references, ["APL 21-011"]);
+  });
+
+  it("keeps differently numbered sub-items apart", () => {
+    const merged = mergeQuestions([
+      [
+        {
+          text: "Does the P&P describe the right to a hearing?",
+          number: "3.2.a",
+        },
+        {
+          text: "Does the P&P describe the time to a hearing?",
+          number: "3.2.b",
+        },
+      ],
+    ]);
+    assert.equal(merged.length, 2);
+  });
+
+  it("does not compare questions pages apart", () => {
+    const q = { text: "Is the notice sent in writing to the member?" };
+    assert.equal(
+      mergeQuestions([[{ ...q, page: 1 }], [{ ...q, page: 9 }]]).length,
+      2
+    );
+  });
+});
+
+describe("toQuestions", () => {
+  it("derives ids from numbers and drops exact repeats", () => {
+    const qs = toQuestions([
+      { text: "Is A done?", number: "1.1" },
+      { text: "is a  done?" },
+      { text: "Is B done?", number: "1.1" },
+      { text: "Is C done?" },
+    ]);
+    assert.deepEqual(
+      qs.map((q) => q.id),
+      ["q_1.1", "q_1.1~2", "q_3"]
+    );
+  });
+});
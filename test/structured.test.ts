@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it, mock } from "node:test";
+import { z } from "zod";
+import { createFakeProvider } from "../src/lib/providers";
+import {
+  generateStructured,
+  SchemaValidationError,
+} from "../src/lib/structured";
+
+const Schema = z.object({ status: z.enum(["Met", "Not Met"]) });
+
+// Replies in order; every prompt is recorded
+function scripted(replies: string[]) {
+  const prompts: string[] = [];
+  const provider = createFakeProvider({
+    respond: (prompt) => {
+      prompts.push(prompt);
+      return replies.shift() ?? "";
+    },
+  });
+  return { provider, prompts };
+}
+
+describe("generateStructured", () => {
+  beforeEach(() => {
+    mock.method(console, "warn", () => {});
+    mock.method(console, "error", () => {});
+  });
+
+  it("returns a valid reply without a repair", async () => {
+    const { provider, prompts } = scripted(['{"status":"Met"}']);
+    const out = await generateStructured(provider, "P", Schema, {
+      label: "test",
+    });
+    assert.deepEqual(out, { status: "Met" });
+    assert.equal(prompts.length, 1);
+  });
+
+  it("reads JSON wrapped in a code fence or a sentence", async () => {
+    for (const reply of [
+      '```json\n{"status":"Not Met"}\n```',
+      'Here you go: {"status":"Not Met"} Hope it helps.',
+    ]) {
+      const { provider } = scripted([reply]);
+      const out = await generateStructured(provider, "P", Schema, {
+        label: "test",
+      });
+      assert.deepEqual(out, { status: "Not Met" });
+    }
+  });
+
+  it("sends an invalid reply back once with the error", async () => {
+    const { provider, prompts } = scripted([
+      '{"status":"maybe"}',
+      '{"status":"Met"}',
+    ]);
+    const out = await generateStructured(provider, "P", Schema, {
+      label: "test",
+    });
+    assert.deepEqual(out, { status: "Met" });
+    assert.equal(prompts.length, 2);
+    assert.match(
+      prompts[1],
+      /^P\n\nYour previous reply was:\n\{"status":"maybe"\}/
+    );
+    assert.match(prompts[1], /It is invalid: status: /);
+  });
+
+  it("throws with the raw reply when the repair is invalid too", async () => {
+    const { provider, prompts } = scripted(["not json", "still not json"]);
+    await assert.rejects(
+      generateStructured(provider, "P", Schema, { label: "test" }),
+      (err) =>
+        err instanceof SchemaValidationError &&
+        err.raw === "still not json" &&
+        /^test: invalid model output: not valid JSON/.test(err.message)
+    );
+    assert.equal(prompts.length, 2);
+  });
+});